@@ -1,4 +1,4 @@
-import { createTTSServer } from '../src/server';
+import { createTTSServer, createConsoleLogger } from '../src/server';
 
 // 检查环境变量
 console.log('当前工作目录:', process.cwd());
@@ -20,6 +20,7 @@ if (!process.env.KIMI_API_KEY || !process.env.VOLCENGINE_APP_ID || !process.env.
 }
 
 const server = createTTSServer({
+  logger: createConsoleLogger('info'),
   server: {
     port: 3000,
     host: '0.0.0.0',
@@ -15,13 +15,25 @@ import type {
   ErrorEvent,
   ConnectionEstablishedEvent,
   ConversationStartedEvent,
+  ConversationResetEvent,
+  ConversationCanceledEvent,
+  HistoryEvent,
+  QueuedEvent,
+  QueuePositionEvent,
+  ChatMessage,
   ClientMessage,
   SentenceData,
+  ConversationData,
   AudioChunkData,
   Stats,
   ExportData,
-  ConnectionStatus
+  ConnectionStatus,
+  Logger,
+  SynthesisOptions,
+  AudioTransport
 } from './types';
+import { silentLogger } from './core/logger';
+import { AUDIO_BINARY_PROTOCOL, decodeAudioFrame, resolveAudioTransport } from './core/audio-frame';
 
 /**
  * TTS 客户端 SDK 主类
@@ -31,7 +43,10 @@ export class TTSClientSDK {
   private ws?: WebSocket;
   private connectionStatus: ConnectionStatus = 'disconnected';
   private callbacks: EventCallbacks = {};
-  private sentences = new Map<number, SentenceData>();
+  /** 按对话分组的句子数据，并发的对话互不影响 */
+  private conversations = new Map<string, ConversationData>();
+  /** 最近一次开始的对话，省略 conversationId 的查询默认使用它 */
+  private currentConversationId?: string;
   private stats: Stats = {
     totalSentences: 0,
     completedSentences: 0,
@@ -40,14 +55,22 @@ export class TTSClientSDK {
   private reconnectAttempts = 0;
   private reconnectTimer?: number;
   private isManualDisconnect = false;
+  private audioTransport: AudioTransport = 'json';
+  /** 多轮对话记录，每轮在 chat_complete 时追加 */
+  private transcript: ChatMessage[] = [];
+  private historyWaiters: Array<(messages: ChatMessage[]) => void> = [];
+  private logger: Logger;
 
   constructor(config: TTSConfig = {}) {
+    this.logger = config.logger ?? silentLogger;
     this.config = {
       client: {
         serverUrl: 'ws://localhost:8080/tts',
         autoConnect: false,
         reconnectInterval: 3000,
         maxReconnectAttempts: 5,
+        audioTransport: 'binary',
+        maxConversations: 20,
         ...config.client
       },
       ...config
@@ -65,6 +88,19 @@ export class TTSClientSDK {
     this.callbacks = { ...this.callbacks, ...callbacks };
   }
 
+  /**
+   * 浏览器的 WebSocket 不能设置请求头，认证令牌通过 token 查询参数传递
+   */
+  private withAuthToken(serverUrl: string): string {
+    const token = this.config.client!.authToken;
+    if (!token) {
+      return serverUrl;
+    }
+    const url = new URL(serverUrl);
+    url.searchParams.set('token', token);
+    return url.toString();
+  }
+
   /**
    * 连接到服务器
    */
@@ -73,13 +109,16 @@ export class TTSClientSDK {
       throw new Error('已连接或正在连接中');
     }
 
-    const url = serverUrl || this.config.client!.serverUrl!;
+    const url = this.withAuthToken(serverUrl || this.config.client!.serverUrl!);
     this.isManualDisconnect = false;
 
     try {
       this.setConnectionStatus('connecting');
       
-      this.ws = new WebSocket(url);
+      // 请求二进制音频帧，服务端不支持时握手不带子协议，继续使用 JSON
+      const protocols = this.config.client!.audioTransport !== 'json' ? [AUDIO_BINARY_PROTOCOL] : undefined;
+      this.ws = new WebSocket(url, protocols);
+      this.ws.binaryType = 'arraybuffer';
       
       // 设置连接超时
       const connectTimeout = setTimeout(() => {
@@ -100,7 +139,8 @@ export class TTSClientSDK {
           clearTimeout(connectTimeout);
           this.setConnectionStatus('connected');
           this.reconnectAttempts = 0;
-          console.log('✅ 已连接到TTS服务器');
+          this.audioTransport = resolveAudioTransport(this.ws?.protocol);
+          this.logger.info('已连接到TTS服务器', { url, audioTransport: this.audioTransport });
           resolve();
         };
 
@@ -110,8 +150,10 @@ export class TTSClientSDK {
 
         this.ws.onclose = (event) => {
           clearTimeout(connectTimeout);
+          // 连接断开后服务端会取消进行中的对话
+          this.endConversations(undefined, 'error', Date.now());
           this.setConnectionStatus('disconnected');
-          console.log(`🔌 连接已关闭 (code: ${event.code})`);
+          this.logger.info('连接已关闭', { code: event.code });
           
           // 自动重连
           if (!this.isManualDisconnect && this.config.client!.maxReconnectAttempts! > 0) {
@@ -122,7 +164,7 @@ export class TTSClientSDK {
         this.ws.onerror = (error) => {
           clearTimeout(connectTimeout);
           this.setConnectionStatus('error');
-          console.error('❌ WebSocket错误:', error);
+          this.logger.error('WebSocket错误', { error });
           this.callbacks.onError?.({
             type: 'error',
             data: { message: '连接错误' },
@@ -155,14 +197,18 @@ export class TTSClientSDK {
     }
 
     this.setConnectionStatus('disconnected');
-    console.log('🔌 已断开连接');
+    this.logger.info('已断开连接');
   }
 
   /**
-   * 开始对话
+   * 开始对话，可以在上一轮未结束时开始新的对话
+   * @param userMessage 用户消息
+   * @param options 语音合成参数（发音人、语速、音调、音量等）
+   * @param conversationId 对话ID，不传时自动生成
+   * @returns 对话ID，该对话的所有事件都带有此ID
    */
-  async startConversation(userMessage: string): Promise<void> {
-    if (this.connectionStatus !== 'connected') {
+  async startConversation(userMessage: string, options?: SynthesisOptions, conversationId?: string): Promise<string> {
+    if (this.connectionStatus !== 'connected' && this.connectionStatus !== 'processing') {
       throw new Error('未连接到服务器');
     }
 
@@ -170,21 +216,121 @@ export class TTSClientSDK {
       throw new Error('用户消息不能为空');
     }
 
-    // 清空之前的数据
-    this.sentences.clear();
-    this.resetStats();
+    const id = conversationId || `conv_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    if (this.conversations.get(id)?.status === 'active') {
+      throw new Error(`对话 ${id} 正在进行中`);
+    }
+
+    // 先删除再写入，重复使用的 ID 排到最后
+    this.conversations.delete(id);
+    this.conversations.set(id, {
+      id,
+      userMessage: userMessage.trim(),
+      status: 'active',
+      sentences: new Map(),
+      startTime: Date.now()
+    });
+    this.currentConversationId = id;
+    this.pruneConversations();
     this.setConnectionStatus('processing');
 
     // 发送开始对话消息
     const message: ClientMessage = {
       type: 'start_conversation',
       payload: {
-        userMessage: userMessage.trim()
+        conversationId: id,
+        userMessage: userMessage.trim(),
+        ...(options && { options })
       }
     };
 
     this.sendMessage(message);
-    console.log(`🗣️ 开始对话: "${userMessage}"`);
+    this.logger.debug('开始对话', { event: 'start_conversation', conversationId: id, textLength: message.payload!.userMessage!.length });
+    return id;
+  }
+
+  /**
+   * 打断进行中的对话或合成，服务端停止AI生成和语音合成后回复 conversation_canceled
+   * @param id 只取消指定的对话或合成请求，不传时取消全部
+   */
+  cancel(id?: string): void {
+    if (this.connectionStatus !== 'connected' && this.connectionStatus !== 'processing') {
+      return;
+    }
+
+    const payload = id === undefined
+      ? undefined
+      : this.conversations.has(id) ? { conversationId: id } : { requestId: id };
+    this.sendMessage({
+      type: 'cancel',
+      ...(payload && { payload })
+    });
+    this.logger.debug('取消请求', { event: 'cancel', ...payload });
+  }
+
+  /**
+   * 清空对话历史，之后的对话不再带有之前的上下文
+   */
+  resetConversation(): void {
+    this.sendMessage({ type: 'reset_conversation' });
+    this.transcript = [];
+  }
+
+  /**
+   * 获取对话数据，不传 conversationId 时返回最近一次对话
+   */
+  getConversation(conversationId?: string): ConversationData | undefined {
+    const id = conversationId ?? this.currentConversationId;
+    return id === undefined ? undefined : this.conversations.get(id);
+  }
+
+  /**
+   * 获取所有对话数据，按开始顺序排列
+   */
+  getConversations(): ConversationData[] {
+    return Array.from(this.conversations.values());
+  }
+
+  /**
+   * 清除已结束的对话数据并重置统计，进行中的对话保留
+   */
+  clearConversations(): void {
+    for (const [id, conversation] of this.conversations) {
+      if (conversation.status !== 'active') {
+        this.conversations.delete(id);
+      }
+    }
+    this.resetStats();
+  }
+
+  /**
+   * 获取本地记录的对话内容
+   */
+  getTranscript(): ChatMessage[] {
+    return this.transcript.map((message) => ({ ...message }));
+  }
+
+  /**
+   * 从服务端获取对话历史（已按服务端配置截断），并同步到本地记录
+   */
+  async fetchHistory(): Promise<ChatMessage[]> {
+    if (this.connectionStatus === 'disconnected' || this.connectionStatus === 'error') {
+      throw new Error('未连接到服务器');
+    }
+
+    return new Promise((resolve, reject) => {
+      const waiter = (messages: ChatMessage[]) => {
+        clearTimeout(timer);
+        resolve(messages);
+      };
+      const timer = setTimeout(() => {
+        this.historyWaiters = this.historyWaiters.filter((w) => w !== waiter);
+        reject(new Error('获取对话历史超时'));
+      }, 10000);
+
+      this.historyWaiters.push(waiter);
+      this.sendMessage({ type: 'get_history' });
+    });
   }
 
   /**
@@ -203,6 +349,13 @@ export class TTSClientSDK {
     return this.connectionStatus;
   }
 
+  /**
+   * 获取握手协商出的音频传输方式
+   */
+  getAudioTransport(): AudioTransport {
+    return this.audioTransport;
+  }
+
   /**
    * 获取统计信息
    */
@@ -211,24 +364,24 @@ export class TTSClientSDK {
   }
 
   /**
-   * 获取所有句子数据
+   * 获取对话的所有句子数据，不传 conversationId 时为最近一次对话
    */
-  getSentences(): SentenceData[] {
-    return Array.from(this.sentences.values());
+  getSentences(conversationId?: string): SentenceData[] {
+    return Array.from(this.getConversation(conversationId)?.sentences.values() ?? []);
   }
 
   /**
    * 获取指定句子数据
    */
-  getSentence(sentenceId: number): SentenceData | undefined {
-    return this.sentences.get(sentenceId);
+  getSentence(sentenceId: number, conversationId?: string): SentenceData | undefined {
+    return this.getConversation(conversationId)?.sentences.get(sentenceId);
   }
 
   /**
    * 获取句子的合并音频数据
    */
-  getMergedAudio(sentenceId: number): Uint8Array | null {
-    const sentence = this.sentences.get(sentenceId);
+  getMergedAudio(sentenceId: number, conversationId?: string): Uint8Array | null {
+    const sentence = this.getSentence(sentenceId, conversationId);
     if (!sentence || sentence.audioChunks.length === 0) {
       return null;
     }
@@ -250,8 +403,8 @@ export class TTSClientSDK {
   /**
    * 创建音频Blob
    */
-  createAudioBlob(sentenceId: number, mimeType: string = 'audio/mpeg'): Blob | null {
-    const audioData = this.getMergedAudio(sentenceId);
+  createAudioBlob(sentenceId: number, mimeType: string = 'audio/mpeg', conversationId?: string): Blob | null {
+    const audioData = this.getMergedAudio(sentenceId, conversationId);
     if (!audioData) {
       return null;
     }
@@ -262,8 +415,8 @@ export class TTSClientSDK {
   /**
    * 创建音频URL
    */
-  createAudioURL(sentenceId: number, mimeType: string = 'audio/mpeg'): string | null {
-    const blob = this.createAudioBlob(sentenceId, mimeType);
+  createAudioURL(sentenceId: number, mimeType: string = 'audio/mpeg', conversationId?: string): string | null {
+    const blob = this.createAudioBlob(sentenceId, mimeType, conversationId);
     if (!blob) {
       return null;
     }
@@ -277,14 +430,9 @@ export class TTSClientSDK {
    * @param options 合成选项
    * @returns Promise<HTMLAudioElement | null>
    */
-  async synthesizeText(text: string, options?: {
-    voice?: string
-    rate?: number
-    pitch?: number
-    volume?: number
-  }): Promise<HTMLAudioElement | null> {
+  async synthesizeText(text: string, options?: SynthesisOptions): Promise<HTMLAudioElement | null> {
     if (this.connectionStatus !== 'connected') {
-      console.warn('连接未建立，无法进行TTS合成')
+      this.logger.warn('连接未建立，无法进行TTS合成')
       return null
     }
 
@@ -305,7 +453,7 @@ export class TTSClientSDK {
       // 设置响应处理器
       const handleResponse = (event: MessageEvent) => {
         try {
-          const response = JSON.parse(event.data)
+          const response = this.parseServerMessage(event.data)
           
           if (response.type === 'synthesis_complete' && response.data?.requestId === requestId) {
             // 移除事件监听器
@@ -313,7 +461,7 @@ export class TTSClientSDK {
             
             if (response.data.audioData) {
               // 创建音频元素
-              const audioBlob = new Blob([new Uint8Array(response.data.audioData)], { type: 'audio/mpeg' })
+              const audioBlob = new Blob([new Uint8Array(response.data.audioData as Uint8Array)], { type: 'audio/mpeg' })
               const audioUrl = URL.createObjectURL(audioBlob)
               const audio = new Audio(audioUrl)
               
@@ -324,17 +472,17 @@ export class TTSClientSDK {
               
               resolve(audio)
             } else {
-              console.warn('TTS合成响应中没有音频数据')
+              this.logger.warn('TTS合成响应中没有音频数据', { requestId })
               resolve(null)
             }
           } else if (response.type === 'synthesis_error' && response.data?.requestId === requestId) {
             // 移除事件监听器
             this.ws?.removeEventListener('message', handleResponse)
-            console.error('TTS合成失败:', response.data.message)
+            this.logger.error('TTS合成失败', { requestId, error: response.data.message })
             resolve(null)
           }
         } catch (error) {
-          console.error('处理TTS合成响应失败:', error)
+          this.logger.error('处理TTS合成响应失败', { requestId, error })
         }
       }
 
@@ -347,7 +495,7 @@ export class TTSClientSDK {
       // 设置超时
       setTimeout(() => {
         this.ws?.removeEventListener('message', handleResponse)
-        console.warn('TTS合成请求超时')
+        this.logger.warn('TTS合成请求超时', { requestId })
         resolve(null)
       }, 10000) // 10秒超时
     })
@@ -361,12 +509,7 @@ export class TTSClientSDK {
    */
   async synthesizeMultipleTexts(
     texts: string[], 
-    options?: {
-      voice?: string
-      rate?: number
-      pitch?: number
-      volume?: number
-    }
+    options?: SynthesisOptions
   ): Promise<(HTMLAudioElement | null)[]> {
     const results: (HTMLAudioElement | null)[] = []
     
@@ -389,7 +532,9 @@ export class TTSClientSDK {
     return {
       timestamp: new Date().toISOString(),
       stats: this.getStats(),
-      sentences: this.getSentences().map(sentence => ({
+      transcript: this.getTranscript(),
+      sentences: this.getConversations().flatMap(conversation => Array.from(conversation.sentences.values()).map(sentence => ({
+        conversationId: conversation.id,
         id: sentence.id,
         text: sentence.text,
         status: sentence.status,
@@ -399,7 +544,7 @@ export class TTSClientSDK {
         duration: sentence.duration,
         audioTimestamps: sentence.audioTimestamps,
         totalAudioDuration: sentence.totalAudioDuration
-      }))
+      })))
     };
   }
 
@@ -408,7 +553,9 @@ export class TTSClientSDK {
    */
   dispose(): void {
     this.disconnect();
-    this.sentences.clear();
+    this.conversations.clear();
+    this.currentConversationId = undefined;
+    this.transcript = [];
     this.callbacks = {};
   }
 
@@ -420,7 +567,7 @@ export class TTSClientSDK {
   private setConnectionStatus(status: ConnectionStatus): void {
     if (this.connectionStatus !== status) {
       this.connectionStatus = status;
-      console.log(`🔄 连接状态变更: ${status}`);
+      this.logger.debug('连接状态变更', { status });
     }
   }
 
@@ -433,13 +580,13 @@ export class TTSClientSDK {
     }
 
     this.reconnectAttempts++;
-    console.log(`🔄 尝试重连 (${this.reconnectAttempts}/${this.config.client!.maxReconnectAttempts!})`);
+    this.logger.info('尝试重连', { attempt: this.reconnectAttempts, maxAttempts: this.config.client!.maxReconnectAttempts! });
 
     this.reconnectTimer = setTimeout(async () => {
       try {
         await this.connect();
       } catch (error) {
-        console.error('❌ 重连失败:', error);
+        this.logger.error('重连失败', { error });
       }
     }, this.config.client!.reconnectInterval!) as any;
   }
@@ -460,10 +607,10 @@ export class TTSClientSDK {
    */
   private handleServerMessage(event: MessageEvent): void {
     try {
-      const message: ClientEvent = JSON.parse(event.data);
+      const message = this.parseServerMessage(event.data);
       this.processServerEvent(message);
     } catch (error) {
-      console.error('❌ 消息解析失败:', error);
+      this.logger.error('消息解析失败', { error });
       this.callbacks.onError?.({
         type: 'error',
         data: { message: '消息解析失败' },
@@ -472,6 +619,21 @@ export class TTSClientSDK {
     }
   }
 
+  /**
+   * 解析服务器消息：二进制帧解码为事件，JSON 中的音频数组还原为 Uint8Array
+   */
+  private parseServerMessage(data: unknown): ClientEvent {
+    if (data instanceof ArrayBuffer) {
+      return decodeAudioFrame(new Uint8Array(data));
+    }
+
+    const message: ClientEvent = JSON.parse(data as string);
+    if (Array.isArray(message.data?.audioData)) {
+      message.data.audioData = new Uint8Array(message.data.audioData);
+    }
+    return message;
+  }
+
   /**
    * 处理服务器事件
    */
@@ -505,12 +667,29 @@ export class TTSClientSDK {
         this.handleChatComplete(event as ChatCompleteEvent);
         break;
         
+      case 'history':
+        this.handleHistory(event as HistoryEvent);
+        break;
+
+      case 'conversation_canceled':
+        this.handleConversationCanceled(event as ConversationCanceledEvent);
+        break;
+
+      case 'conversation_reset':
+        this.handleConversationReset(event as ConversationResetEvent);
+        break;
+
+      case 'queued':
+      case 'queue_position':
+        this.handleQueuePosition(event as QueuedEvent | QueuePositionEvent);
+        break;
+
       case 'error':
         this.handleError(event as ErrorEvent);
         break;
         
       default:
-        console.log(`📨 收到消息: ${event.type}`);
+        this.logger.debug('收到消息', { event: event.type });
     }
   }
 
@@ -518,7 +697,7 @@ export class TTSClientSDK {
    * 处理连接建立事件
    */
   private handleConnectionEstablished(event: ConnectionEstablishedEvent): void {
-    console.log('✅ 连接已建立');
+    this.logger.debug('连接已建立', { clientId: event.data.clientId, event: event.type });
     this.callbacks.onConnectionEstablished?.(event);
   }
 
@@ -526,7 +705,7 @@ export class TTSClientSDK {
    * 处理对话开始事件
    */
   private handleConversationStarted(event: ConversationStartedEvent): void {
-    console.log('🗣️ 对话已开始');
+    this.logger.debug('对话已开始', { event: event.type, conversationId: event.conversationId });
     this.callbacks.onConversationStarted?.(event);
   }
 
@@ -534,7 +713,7 @@ export class TTSClientSDK {
    * 处理AI文本片段
    */
   private handleTextChunk(event: TextChunkEvent): void {
-    console.log(`📝 AI输出: ${event.data.content}`);
+    this.logger.debug('AI输出', { event: event.type, textLength: event.data.content.length });
     this.callbacks.onTextChunk?.(event);
   }
 
@@ -543,6 +722,7 @@ export class TTSClientSDK {
    */
   private handleSentenceStart(event: SentenceStartEvent): void {
     const { sentenceId, sentence } = event.data;
+    const conversation = this.findConversation(event);
     
     const sentenceData: SentenceData = {
       id: sentenceId,
@@ -552,10 +732,10 @@ export class TTSClientSDK {
       startTime: event.timestamp
     };
     
-    this.sentences.set(sentenceId, sentenceData);
+    conversation?.sentences.set(sentenceId, sentenceData);
     this.stats.totalSentences++;
     
-    console.log(`🎬 句子开始: [${sentenceId}] ${sentence}`);
+    this.logger.debug('句子开始', { event: event.type, conversationId: conversation?.id, sentenceId });
     this.callbacks.onSentenceStart?.(event);
   }
 
@@ -565,14 +745,11 @@ export class TTSClientSDK {
   private handleAudioChunk(event: AudioChunkEvent): void {
     const { sentenceId, chunkIndex, audioData } = event.data;
     
-    const sentence = this.sentences.get(sentenceId);
+    const sentence = this.findConversation(event)?.sentences.get(sentenceId);
     if (sentence) {
-      // 将数组转换回Uint8Array
-      const audioBytes = Array.isArray(audioData) ? new Uint8Array(audioData) : audioData;
-      
       const chunkData: AudioChunkData = {
         index: chunkIndex,
-        data: audioBytes,
+        data: audioData,
         timestamp: event.timestamp
       };
       
@@ -580,7 +757,7 @@ export class TTSClientSDK {
       sentence.status = 'collecting';
       this.stats.totalChunks++;
       
-      console.log(`🎵 音频片段: [${sentenceId}] 第${chunkIndex + 1}片 (${audioBytes.length} bytes)`);
+      this.logger.debug('音频片段', { event: event.type, sentenceId, chunkIndex, bytes: audioData.length });
     }
     
     this.callbacks.onAudioChunk?.(event);
@@ -592,7 +769,7 @@ export class TTSClientSDK {
   private handleSentenceComplete(event: SentenceCompleteEvent): void {
     const { sentenceId, totalChunks, duration, audioTimestamps, totalAudioDuration } = event.data;
     
-    const sentence = this.sentences.get(sentenceId);
+    const sentence = this.findConversation(event)?.sentences.get(sentenceId);
     if (sentence) {
       sentence.status = 'completed';
       sentence.endTime = event.timestamp;
@@ -613,7 +790,7 @@ export class TTSClientSDK {
       
       this.stats.completedSentences++;
       
-      console.log(`✅ 句子完成: [${sentenceId}] ${totalChunks}个片段, 耗时${duration}ms`);
+      this.logger.debug('句子完成', { event: event.type, sentenceId, totalChunks, duration });
     }
     
     this.callbacks.onSentenceComplete?.(event);
@@ -623,29 +800,144 @@ export class TTSClientSDK {
    * 处理聊天完成事件
    */
   private handleChatComplete(event: ChatCompleteEvent): void {
-    const { fullText, totalSentences } = event.data;
-    
-    this.setConnectionStatus('connected');
+    const { fullText, totalSentences, spokenText } = event.data;
+    const conversation = this.findConversation(event);
+
+    if (conversation?.status === 'active') {
+      conversation.status = 'completed';
+      conversation.fullText = fullText;
+      conversation.spokenText = spokenText;
+      conversation.endTime = event.timestamp;
+      this.transcript.push(
+        { role: 'user', content: conversation.userMessage, timestamp: event.timestamp },
+        { role: 'assistant', content: fullText, timestamp: event.timestamp }
+      );
+    }
+    this.updateProcessingStatus();
     
-    console.log(`🎯 聊天完成! 总共处理${totalSentences}个句子`);
-    console.log(`📄 完整文本: ${fullText}`);
+    this.logger.debug('聊天完成', { event: event.type, conversationId: conversation?.id, totalSentences, textLength: fullText.length });
     
     this.callbacks.onChatComplete?.(event);
   }
 
+  /**
+   * 处理对话历史事件
+   */
+  private handleHistory(event: HistoryEvent): void {
+    this.transcript = event.data.messages.map((message) => ({ ...message }));
+    this.logger.debug('对话历史', { event: event.type, messages: this.transcript.length });
+
+    for (const waiter of this.historyWaiters.splice(0)) {
+      waiter(this.getTranscript());
+    }
+  }
+
+  /**
+   * 处理对话取消事件
+   */
+  private handleConversationCanceled(event: ConversationCanceledEvent): void {
+    // 被打断的一轮服务端不会记入历史
+    this.endConversations(event.conversationId, 'canceled', event.timestamp);
+    this.logger.debug('对话已取消', { event: event.type, conversationId: event.conversationId });
+    this.callbacks.onConversationCanceled?.(event);
+  }
+
+  /**
+   * 对话数超过 maxConversations 时按开始顺序丢弃已结束的对话，进行中的对话保留
+   */
+  private pruneConversations(): void {
+    const limit = Math.max(1, this.config.client?.maxConversations ?? 20);
+    let excess = this.conversations.size - limit;
+    for (const [id, conversation] of this.conversations) {
+      if (excess <= 0) {
+        break;
+      }
+      if (conversation.status !== 'active') {
+        this.conversations.delete(id);
+        excess--;
+      }
+    }
+  }
+
+  /**
+   * 处理对话重置事件
+   */
+  private handleConversationReset(event: ConversationResetEvent): void {
+    this.logger.debug('对话已重置', { event: event.type });
+    this.callbacks.onConversationReset?.(event);
+  }
+
+  /**
+   * 处理排队事件，记录对话的排队位置
+   */
+  private handleQueuePosition(event: QueuedEvent | QueuePositionEvent): void {
+    const { position, queueSize } = event.data;
+    this.logger.debug('排队位置', { conversationId: event.conversationId, requestId: event.requestId, position, queueSize });
+
+    const conversation = event.conversationId ? this.conversations.get(event.conversationId) : undefined;
+    if (conversation) {
+      conversation.queuePosition = position > 0 ? position : undefined;
+    }
+
+    if (event.type === 'queued') {
+      this.callbacks.onQueued?.(event);
+    } else {
+      this.callbacks.onQueuePosition?.(event);
+    }
+  }
+
   /**
    * 处理错误事件
    */
   private handleError(event: ErrorEvent): void {
-    console.error(`❌ 服务器错误: ${event.data.message}`);
+    this.logger.error('服务器错误', { event: event.type, conversationId: event.conversationId, error: event.data.message });
     
-    if (this.connectionStatus === 'processing') {
-      this.setConnectionStatus('connected');
+    // 失败的一轮服务端不会记入历史；只属于合成请求的错误不影响对话
+    if (event.conversationId || !event.requestId) {
+      this.endConversations(event.conversationId, 'error', event.timestamp);
     }
     
     this.callbacks.onError?.(event);
   }
 
+  /**
+   * 查找事件所属的对话，旧版服务端不带 conversationId 时归入最近一次对话
+   */
+  private findConversation(event: ClientEvent): ConversationData | undefined {
+    return this.getConversation(event.conversationId);
+  }
+
+  /**
+   * 结束指定对话；不指定 conversationId 时结束所有进行中的对话
+   */
+  private endConversations(conversationId: string | undefined, status: 'canceled' | 'error', timestamp: number): void {
+    const targets = conversationId
+      ? [this.conversations.get(conversationId)]
+      : this.getConversations();
+
+    for (const conversation of targets) {
+      if (conversation?.status === 'active') {
+        conversation.status = status;
+        conversation.endTime = timestamp;
+        conversation.queuePosition = undefined;
+      }
+    }
+    this.updateProcessingStatus();
+  }
+
+  /**
+   * 所有对话都结束后回到 connected 状态
+   */
+  private updateProcessingStatus(): void {
+    if (this.connectionStatus !== 'processing') {
+      return;
+    }
+    const active = this.getConversations().some((conversation) => conversation.status === 'active');
+    if (!active) {
+      this.setConnectionStatus('connected');
+    }
+  }
+
   /**
    * 重置统计信息
    */
@@ -663,4 +955,10 @@ export class TTSClientSDK {
  */
 export function createTTSClient(config?: TTSConfig): TTSClientSDK {
   return new TTSClientSDK(config);
-}
\ No newline at end of file
+}
+
+// 日志
+export { silentLogger, createConsoleLogger } from './core/logger';
+
+// 音频二进制帧
+export { AUDIO_BINARY_PROTOCOL, decodeAudioFrame } from './core/audio-frame';
@@ -0,0 +1,86 @@
+import type { AudioTransport, ClientEvent } from '../types'
+
+/**
+ * 客户端在握手时通过 WebSocket 子协议请求二进制音频帧，
+ * 服务端确认后 audio_chunk 等携带音频的事件改用二进制帧发送
+ */
+export const AUDIO_BINARY_PROTOCOL = 'tts.audio.binary.v1'
+
+const FRAME_VERSION = 1
+/** 版本(1 字节) + 头部长度(4 字节，大端) */
+const PREFIX_SIZE = 5
+
+/**
+ * 根据握手协商出的子协议确定音频传输方式
+ */
+export function resolveAudioTransport(protocol?: string): AudioTransport {
+  return protocol === AUDIO_BINARY_PROTOCOL ? 'binary' : 'json'
+}
+
+/**
+ * 事件是否携带音频数据
+ */
+export function hasAudioData(event: ClientEvent): boolean {
+  return event.data?.audioData instanceof Uint8Array
+}
+
+/**
+ * 将携带音频的事件编码为二进制帧
+ *
+ * 帧格式：版本号(1 字节) | 头部长度(uint32 大端) | JSON 头部 | 音频数据。
+ * 头部是去掉 audioData 的事件本身，包含 sentenceId、chunkIndex、requestId 等字段。
+ */
+export function encodeAudioFrame(event: ClientEvent): Uint8Array {
+  const { audioData, ...data } = event.data as { audioData: Uint8Array }
+  const header = new TextEncoder().encode(JSON.stringify({ ...event, data }))
+
+  const frame = new Uint8Array(PREFIX_SIZE + header.length + audioData.length)
+  const view = new DataView(frame.buffer)
+  view.setUint8(0, FRAME_VERSION)
+  view.setUint32(1, header.length, false)
+  frame.set(header, PREFIX_SIZE)
+  frame.set(audioData, PREFIX_SIZE + header.length)
+  return frame
+}
+
+/**
+ * 解码二进制帧，audioData 为指向帧内音频数据的 Uint8Array
+ */
+export function decodeAudioFrame(frame: Uint8Array): ClientEvent {
+  if (frame.length < PREFIX_SIZE) {
+    throw new Error(`audio frame too short: ${frame.length} bytes`)
+  }
+
+  const view = new DataView(frame.buffer, frame.byteOffset, frame.byteLength)
+  const version = view.getUint8(0)
+  if (version !== FRAME_VERSION) {
+    throw new Error(`unsupported audio frame version: ${version}`)
+  }
+
+  const headerSize = view.getUint32(1, false)
+  if (PREFIX_SIZE + headerSize > frame.length) {
+    throw new Error(`audio frame header exceeds frame: ${headerSize} bytes`)
+  }
+
+  const header = JSON.parse(
+    new TextDecoder().decode(frame.subarray(PREFIX_SIZE, PREFIX_SIZE + headerSize)),
+  ) as ClientEvent
+  header.data = {
+    ...header.data,
+    audioData: frame.subarray(PREFIX_SIZE + headerSize),
+  }
+  return header
+}
+
+/**
+ * 将事件序列化为 JSON 文本，音频数据转为数字数组（兼容旧客户端）
+ */
+export function serializeJsonEvent(event: ClientEvent): string {
+  if (!hasAudioData(event)) {
+    return JSON.stringify(event)
+  }
+  return JSON.stringify({
+    ...event,
+    data: { ...event.data, audioData: Array.from(event.data.audioData as Uint8Array) },
+  })
+}
@@ -0,0 +1,212 @@
+import { Buffer } from 'buffer'
+import { createHash, createHmac, timingSafeEqual } from 'crypto'
+import type { AuthenticateHook, AuthRequest, Principal } from '../types'
+import { HttpError } from './http'
+
+/** 支持的 JWT 签名算法 */
+type JwtAlgorithm = 'HS256' | 'HS384' | 'HS512'
+
+const HMAC_DIGESTS: Record<JwtAlgorithm, string> = {
+  HS256: 'sha256',
+  HS384: 'sha384',
+  HS512: 'sha512',
+}
+
+/**
+ * 凭证的读取位置
+ *
+ * 依次读取 `Authorization: Bearer <token>`、指定请求头和查询参数。
+ * 浏览器的 WebSocket 无法设置请求头，只能通过查询参数传递。
+ */
+export interface CredentialOptions {
+  /** 请求头名称，默认 x-api-key */
+  header?: string
+  /** 查询参数名称，默认 token */
+  queryParam?: string
+}
+
+export interface JwtAuthOptions extends CredentialOptions {
+  /** 允许的签名算法，默认 HS256、HS384、HS512 */
+  algorithms?: JwtAlgorithm[]
+  /** 要求的 iss */
+  issuer?: string
+  /** 要求的 aud，载荷中的 aud 可以是字符串或数组 */
+  audience?: string
+  /** 校验 exp、nbf 时允许的时钟偏差（秒），默认 0 */
+  clockToleranceSec?: number
+}
+
+/**
+ * 从请求中读取凭证
+ */
+export function extractCredential(req: AuthRequest, options: CredentialOptions = {}): string | undefined {
+  const authorization = headerValue(req, 'authorization')
+  const bearer = authorization?.match(/^Bearer\s+(.+)$/i)
+  if (bearer) {
+    return bearer[1].trim()
+  }
+
+  const header = headerValue(req, (options.header ?? 'x-api-key').toLowerCase())
+  if (header) {
+    return header.trim()
+  }
+
+  const query = new URL(req.url ?? '/', 'http://localhost').searchParams.get(options.queryParam ?? 'token')
+  return query || undefined
+}
+
+/**
+ * API Key 认证
+ * @param keys Key 列表，或 Key 到调用方名称的映射；使用列表时调用方标识为 Key 的摘要前缀
+ */
+export function apiKeyAuth(keys: string[] | Record<string, string>, options: CredentialOptions = {}): AuthenticateHook {
+  const entries = Array.isArray(keys)
+    ? keys.map((key) => [key, `key_${fingerprint(key)}`] as const)
+    : Object.entries(keys)
+
+  return (req) => {
+    const credential = extractCredential(req, options)
+    if (!credential) {
+      throw new HttpError(401, 'missing credentials', { code: 'unauthorized' })
+    }
+
+    // 逐个比较全部 Key，避免通过耗时推断匹配位置
+    let principal: Principal | undefined
+    for (const [key, id] of entries) {
+      if (safeEqual(credential, key) && !principal) {
+        principal = { id, method: 'apiKey' }
+      }
+    }
+    if (!principal) {
+      throw new HttpError(401, 'invalid api key', { code: 'unauthorized' })
+    }
+    return principal
+  }
+}
+
+/**
+ * HMAC 签名的 JWT 认证（HS256/HS384/HS512），调用方标识取自 sub
+ */
+export function jwtAuth(secret: string | Uint8Array, options: JwtAuthOptions = {}): AuthenticateHook {
+  return (req) => {
+    const token = extractCredential(req, options)
+    if (!token) {
+      throw new HttpError(401, 'missing credentials', { code: 'unauthorized' })
+    }
+    // 不是 JWT 格式的凭证（如 API Key）按普通的认证失败处理，便于与其他方式组合
+    if (token.split('.').length !== 3) {
+      throw new HttpError(401, 'invalid credentials', { code: 'unauthorized' })
+    }
+
+    const claims = verifyJwt(token, secret, options)
+    return {
+      id: typeof claims.sub === 'string' ? claims.sub : 'jwt',
+      method: 'jwt',
+      claims,
+    }
+  }
+}
+
+/**
+ * 依次尝试多个认证钩子，第一个通过的生效
+ *
+ * 全部失败时优先抛出更具体的错误（如 token_expired），便于调用方判断是否需要刷新令牌；
+ * 否则抛出第一个错误。
+ */
+export function combineAuth(...hooks: AuthenticateHook[]): AuthenticateHook {
+  return async (req) => {
+    const errors: unknown[] = []
+    for (const hook of hooks) {
+      try {
+        const principal = await hook(req)
+        if (principal) {
+          return principal
+        }
+      } catch (error) {
+        errors.push(error)
+      }
+    }
+    throw errors.find((error) => !(error instanceof HttpError) || error.code !== 'unauthorized')
+      ?? errors[0]
+      ?? new HttpError(401, 'unauthorized', { code: 'unauthorized' })
+  }
+}
+
+/**
+ * 校验 JWT 签名和时间、签发方、受众声明，返回载荷
+ */
+export function verifyJwt(
+  token: string,
+  secret: string | Uint8Array,
+  options: JwtAuthOptions = {},
+): Record<string, unknown> {
+  const parts = token.split('.')
+  if (parts.length !== 3) {
+    throw new HttpError(401, 'malformed token', { code: 'invalid_token' })
+  }
+  const [encodedHeader, encodedPayload, signature] = parts
+
+  let header: { alg?: string }
+  let claims: Record<string, unknown>
+  try {
+    header = JSON.parse(Buffer.from(encodedHeader, 'base64url').toString('utf8'))
+    claims = JSON.parse(Buffer.from(encodedPayload, 'base64url').toString('utf8'))
+  } catch {
+    throw new HttpError(401, 'malformed token', { code: 'invalid_token' })
+  }
+
+  const algorithms = options.algorithms ?? (Object.keys(HMAC_DIGESTS) as JwtAlgorithm[])
+  const algorithm = header.alg as JwtAlgorithm
+  if (!algorithms.includes(algorithm)) {
+    throw new HttpError(401, `unsupported token algorithm: ${header.alg}`, { code: 'invalid_token' })
+  }
+
+  const expected = createHmac(HMAC_DIGESTS[algorithm], secret)
+    .update(`${encodedHeader}.${encodedPayload}`)
+    .digest('base64url')
+  if (!safeEqual(signature, expected)) {
+    throw new HttpError(401, 'invalid token signature', { code: 'invalid_token' })
+  }
+
+  const now = Date.now() / 1000
+  const tolerance = options.clockToleranceSec ?? 0
+  if (typeof claims.exp === 'number' && now > claims.exp + tolerance) {
+    throw new HttpError(401, 'token expired', { code: 'token_expired' })
+  }
+  if (typeof claims.nbf === 'number' && now < claims.nbf - tolerance) {
+    throw new HttpError(401, 'token not yet valid', { code: 'invalid_token' })
+  }
+  if (options.issuer !== undefined && claims.iss !== options.issuer) {
+    throw new HttpError(401, 'unexpected token issuer', { code: 'invalid_token' })
+  }
+  if (options.audience !== undefined) {
+    const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud]
+    if (!audiences.includes(options.audience)) {
+      throw new HttpError(401, 'unexpected token audience', { code: 'invalid_token' })
+    }
+  }
+
+  return claims
+}
+
+function headerValue(req: AuthRequest, name: string): string | undefined {
+  const value = req.headers[name]
+  return Array.isArray(value) ? value[0] : value
+}
+
+/**
+ * 定长比较，长度不同时仍做一次比较以保持耗时一致
+ */
+function safeEqual(actual: string, expected: string): boolean {
+  const a = Buffer.from(actual)
+  const b = Buffer.from(expected)
+  if (a.length !== b.length) {
+    timingSafeEqual(b, b)
+    return false
+  }
+  return timingSafeEqual(a, b)
+}
+
+function fingerprint(key: string): string {
+  return createHash('sha256').update(key).digest('hex').slice(0, 8)
+}
@@ -0,0 +1,234 @@
+import { Buffer } from 'buffer'
+import WebSocket from 'ws'
+import {
+  EventType,
+  MsgType,
+  getEventTypeName,
+  getMsgTypeName,
+  unmarshalMessage,
+  type Message,
+} from './protocols'
+import { VolcengineProtocolError, isFailureMessage } from './errors'
+import { silentLogger } from './logger'
+import type { Logger } from '../types'
+
+/**
+ * Options for a single receive call
+ */
+export interface ReceiveOptions {
+  /** Reject when no message arrives within this many milliseconds */
+  timeoutMs?: number
+  /** Reject as soon as the signal is aborted */
+  signal?: AbortSignal
+}
+
+export interface ChannelOptions {
+  /** Default timeout applied to every receive call, 0 disables it */
+  timeoutMs?: number
+  /** Logger for inbound frames and connection failures */
+  logger?: Logger
+  /** X-Api-Resource-Id the connection was opened with */
+  resourceId?: string
+}
+
+interface Waiter {
+  resolve: (msg: Message) => void
+  reject: (error: Error) => void
+}
+
+/**
+ * Inbound message channel of one Volcengine WebSocket connection.
+ *
+ * Frames are decoded as they arrive and handed to waiters in order. A frame
+ * that cannot be decoded rejects the receive call it would have satisfied
+ * instead of throwing from the socket handler, and so does an Error frame or
+ * a ConnectionFailed/SessionFailed event, as a `VolcengineProtocolError`.
+ * Once the socket closes or errors, every pending and future receive call is
+ * rejected.
+ */
+export class VolcengineChannel {
+  readonly ws: WebSocket
+  readonly logger: Logger
+  readonly resourceId?: string
+  private readonly timeoutMs: number
+  private queue: Array<Message | Error> = []
+  private waiters: Waiter[] = []
+  private closedError?: Error
+
+  constructor(ws: WebSocket, options: ChannelOptions = {}) {
+    this.ws = ws
+    this.timeoutMs = options.timeoutMs ?? 0
+    this.logger = options.logger ?? silentLogger
+    this.resourceId = options.resourceId
+
+    ws.on('message', (data: WebSocket.RawData) => {
+      this.push(this.decode(data))
+    })
+
+    ws.on('error', (error: Error) => {
+      this.fail(new Error(`websocket error: ${error.message}`))
+    })
+
+    ws.on('close', (code: number, reason: Buffer) => {
+      const detail = reason.length > 0 ? `, reason=${reason.toString()}` : ''
+      this.fail(new Error(`websocket closed: code=${code}${detail}`))
+    })
+  }
+
+  /**
+   * Whether the underlying socket has closed or errored
+   */
+  get closed(): boolean {
+    return this.closedError !== undefined
+  }
+
+  /**
+   * Receive the next message from the server
+   */
+  receive(options: ReceiveOptions = {}): Promise<Message> {
+    const next = this.queue.shift()
+    if (next !== undefined) {
+      return next instanceof Error ? Promise.reject(next) : Promise.resolve(next)
+    }
+    if (this.closedError) {
+      return Promise.reject(this.closedError)
+    }
+
+    const { signal } = options
+    const timeoutMs = options.timeoutMs ?? this.timeoutMs
+
+    if (signal?.aborted) {
+      return Promise.reject(abortError(signal))
+    }
+
+    return new Promise<Message>((resolve, reject) => {
+      let timer: ReturnType<typeof setTimeout> | undefined
+
+      const cleanup = () => {
+        if (timer) clearTimeout(timer)
+        signal?.removeEventListener('abort', onAbort)
+        const index = this.waiters.indexOf(waiter)
+        if (index !== -1) this.waiters.splice(index, 1)
+      }
+
+      const waiter: Waiter = {
+        resolve: (msg) => {
+          cleanup()
+          resolve(msg)
+        },
+        reject: (error) => {
+          cleanup()
+          reject(error)
+        },
+      }
+
+      const onAbort = () => waiter.reject(abortError(signal!))
+
+      if (timeoutMs > 0) {
+        timer = setTimeout(() => {
+          waiter.reject(new Error(`receive timed out after ${timeoutMs}ms`))
+        }, timeoutMs)
+      }
+      signal?.addEventListener('abort', onAbort, { once: true })
+
+      this.waiters.push(waiter)
+    })
+  }
+
+  /**
+   * Receive the next message and check that it is the expected event
+   */
+  async waitFor(
+    msgType: MsgType,
+    eventType: EventType,
+    options: ReceiveOptions = {},
+  ): Promise<Message> {
+    const msg = await this.receive(options)
+    if (msg.type !== msgType || msg.event !== eventType) {
+      throw new Error(
+        `Unexpected message: type=${getMsgTypeName(msg.type)}, event=${getEventTypeName(msg.event || 0)}`,
+      )
+    }
+    return msg
+  }
+
+  /**
+   * Close the socket and reject everything still waiting
+   */
+  close(): void {
+    this.fail(new Error('channel closed'))
+    if (
+      this.ws.readyState === WebSocket.OPEN ||
+      this.ws.readyState === WebSocket.CONNECTING
+    ) {
+      this.ws.close()
+    }
+  }
+
+  private decode(data: WebSocket.RawData): Message | Error {
+    try {
+      let uint8Data: Uint8Array
+      if (Buffer.isBuffer(data)) {
+        uint8Data = new Uint8Array(data)
+      } else if (data instanceof ArrayBuffer) {
+        uint8Data = new Uint8Array(data)
+      } else if (Array.isArray(data)) {
+        uint8Data = new Uint8Array(Buffer.concat(data))
+      } else {
+        throw new Error(`unexpected websocket message type: ${typeof data}`)
+      }
+      const msg = unmarshalMessage(uint8Data)
+      const fields = {
+        event:
+          msg.event !== undefined
+            ? getEventTypeName(msg.event)
+            : getMsgTypeName(msg.type),
+        sessionId: msg.sessionId,
+      }
+      if (isFailureMessage(msg)) {
+        const error = VolcengineProtocolError.fromMessage(msg)
+        this.logger.warn('received failure frame', { ...fields, error })
+        return error
+      }
+      this.logger.debug('received frame', {
+        ...fields,
+        payloadSize: msg.payload.length,
+      })
+      return msg
+    } catch (error) {
+      this.logger.warn('dropped malformed frame', { error })
+      return new Error(`malformed frame: ${(error as Error).message}`)
+    }
+  }
+
+  private push(item: Message | Error): void {
+    const waiter = this.waiters.shift()
+    if (!waiter) {
+      this.queue.push(item)
+    } else if (item instanceof Error) {
+      waiter.reject(item)
+    } else {
+      waiter.resolve(item)
+    }
+  }
+
+  private fail(error: Error): void {
+    if (this.closedError) return
+    this.closedError = error
+    if (this.waiters.length > 0) {
+      this.logger.debug('rejecting pending receives', {
+        reason: error.message,
+        pending: this.waiters.length,
+      })
+    }
+    for (const waiter of this.waiters.splice(0)) {
+      waiter.reject(error)
+    }
+  }
+}
+
+function abortError(signal: AbortSignal): Error {
+  return signal.reason instanceof Error
+    ? signal.reason
+    : new Error('receive aborted')
+}
@@ -0,0 +1,104 @@
+import {
+  EventType,
+  MsgType,
+  getEventTypeName,
+  type Message,
+} from './protocols'
+
+/**
+ * Error reported by the Volcengine server, either as an Error frame or as a
+ * ConnectionFailed/SessionFailed event.
+ */
+export class VolcengineProtocolError extends Error {
+  /** Server status code, from the frame header or the `status_code` field */
+  readonly code?: number
+  readonly event?: EventType
+  readonly sessionId?: string
+  readonly connectId?: string
+  /** Parsed JSON payload, or the raw text when it is not JSON */
+  readonly serverMessage?: unknown
+  /** Whether the same request may succeed when sent again */
+  readonly retryable: boolean
+
+  constructor(
+    message: string,
+    fields: {
+      code?: number
+      event?: EventType
+      sessionId?: string
+      connectId?: string
+      serverMessage?: unknown
+    } = {},
+  ) {
+    super(message)
+    this.name = 'VolcengineProtocolError'
+    this.code = fields.code
+    this.event = fields.event
+    this.sessionId = fields.sessionId
+    this.connectId = fields.connectId
+    this.serverMessage = fields.serverMessage
+    this.retryable = isRetryableCode(fields.code)
+  }
+
+  /**
+   * Build the error from a failure frame
+   */
+  static fromMessage(msg: Message): VolcengineProtocolError {
+    const text = new TextDecoder().decode(msg.payload)
+    let serverMessage: unknown = text || undefined
+    try {
+      serverMessage = text ? JSON.parse(text) : undefined
+    } catch {
+      // keep the raw text
+    }
+
+    const body =
+      serverMessage && typeof serverMessage === 'object'
+        ? (serverMessage as Record<string, unknown>)
+        : {}
+    const code =
+      msg.errorCode ??
+      (typeof body.status_code === 'number' ? body.status_code : undefined)
+    const detail =
+      typeof body.message === 'string'
+        ? body.message
+        : typeof body.error === 'string'
+          ? body.error
+          : text
+
+    const source =
+      msg.event !== undefined ? getEventTypeName(msg.event) : 'Error'
+    const message = `${source}${code !== undefined ? ` (${code})` : ''}${detail ? `: ${detail}` : ''}`
+
+    return new VolcengineProtocolError(message, {
+      code,
+      event: msg.event,
+      sessionId: msg.sessionId,
+      connectId: msg.connectId,
+      serverMessage,
+    })
+  }
+}
+
+/**
+ * Whether a frame reports a failure instead of carrying data
+ */
+export function isFailureMessage(msg: Message): boolean {
+  return (
+    msg.type === MsgType.Error ||
+    msg.event === EventType.ConnectionFailed ||
+    msg.event === EventType.SessionFailed
+  )
+}
+
+/**
+ * Volcengine status codes follow the HTTP convention in their leading digit:
+ * 4xxxxxxx are caused by the request (bad params, auth, unknown speaker) and
+ * will fail again, 5xxxxxxx are server side and worth retrying. Failures
+ * without a code are treated as transient.
+ */
+function isRetryableCode(code?: number): boolean {
+  if (code === undefined) return true
+  const leading = Number(String(code)[0])
+  return leading !== 4
+}
@@ -0,0 +1,55 @@
+/**
+ * 把回调推送的事件转换为异步迭代：生产方 push，结束时 end 或 fail，消费方 for await 读取
+ */
+export class AsyncEventQueue<T> implements AsyncIterable<T> {
+  private items: T[] = []
+  private wake?: () => void
+  private ended = false
+  private failed = false
+  private error: unknown
+
+  push(item: T): void {
+    if (this.ended) return
+    this.items.push(item)
+    this.notify()
+  }
+
+  /**
+   * 正常结束，已推送的事件读完后迭代结束
+   */
+  end(): void {
+    this.ended = true
+    this.notify()
+  }
+
+  /**
+   * 异常结束，已推送的事件读完后抛出 error
+   */
+  fail(error: unknown): void {
+    if (this.ended) return
+    this.ended = true
+    this.failed = true
+    this.error = error
+    this.notify()
+  }
+
+  async *[Symbol.asyncIterator](): AsyncGenerator<T> {
+    while (true) {
+      if (this.items.length > 0) {
+        yield this.items.shift()!
+        continue
+      }
+      if (this.failed) throw this.error
+      if (this.ended) return
+      await new Promise<void>((resolve) => {
+        this.wake = resolve
+      })
+    }
+  }
+
+  private notify(): void {
+    const wake = this.wake
+    this.wake = undefined
+    wake?.()
+  }
+}
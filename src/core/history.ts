@@ -0,0 +1,105 @@
+import type { ChatMessage, ConversationHistoryOptions } from '../types'
+
+const DEFAULT_MAX_TURNS = 20
+
+/**
+ * 粗略估算文本的 token 数：中日韩字符按 1 个计算，其余字符按 4 个折合 1 个
+ */
+export function estimateTokens(text: string): number {
+  let cjk = 0
+  let other = 0
+  for (const char of text) {
+    if (/[\u3000-\u303f\u3040-\u30ff\u3400-\u9fff\uf900-\ufaff\uff00-\uffef]/.test(char)) {
+      cjk++
+    } else if (!/\s/.test(char)) {
+      other++
+    }
+  }
+  return cjk + Math.ceil(other / 4)
+}
+
+/**
+ * 单个连接的多轮对话历史
+ *
+ * 以轮（一问一答）为单位保存，超过 maxTurns 或 maxTokens 时从最早的一轮开始丢弃，
+ * 不会只保留半轮对话。
+ */
+export class ConversationHistory {
+  private turns: Array<[ChatMessage, ChatMessage]> = []
+  private readonly maxTurns: number
+  private readonly maxTokens?: number
+
+  constructor(options: ConversationHistoryOptions = {}) {
+    this.maxTurns = Math.max(0, options.maxTurns ?? DEFAULT_MAX_TURNS)
+    this.maxTokens = options.maxTokens
+  }
+
+  /**
+   * 已保存的轮数
+   */
+  get size(): number {
+    return this.turns.length
+  }
+
+  /**
+   * 记录一轮完整的对话
+   */
+  append(userMessage: string, assistantMessage: string): void {
+    const timestamp = Date.now()
+    this.turns.push([
+      { role: 'user', content: userMessage, timestamp },
+      { role: 'assistant', content: assistantMessage, timestamp },
+    ])
+    this.truncate()
+  }
+
+  /**
+   * 按时间顺序返回全部消息
+   */
+  getMessages(): ChatMessage[] {
+    return this.turns.flat().map((message) => ({ ...message }))
+  }
+
+  /**
+   * 清空历史
+   */
+  clear(): void {
+    this.turns = []
+  }
+
+  /**
+   * 为新一轮用户消息预留 token 后，返回可以随请求发送的历史消息
+   */
+  getContext(userMessage: string): ChatMessage[] {
+    if (this.maxTokens === undefined) {
+      return this.getMessages()
+    }
+
+    let budget = this.maxTokens - estimateTokens(userMessage)
+    const kept: Array<[ChatMessage, ChatMessage]> = []
+    for (let i = this.turns.length - 1; i >= 0; i--) {
+      const cost = turnTokens(this.turns[i])
+      if (cost > budget) break
+      budget -= cost
+      kept.unshift(this.turns[i])
+    }
+    return kept.flat().map((message) => ({ ...message }))
+  }
+
+  private truncate(): void {
+    if (this.turns.length > this.maxTurns) {
+      this.turns.splice(0, this.turns.length - this.maxTurns)
+    }
+
+    if (this.maxTokens !== undefined) {
+      let total = this.turns.reduce((sum, turn) => sum + turnTokens(turn), 0)
+      while (total > this.maxTokens && this.turns.length > 0) {
+        total -= turnTokens(this.turns.shift()!)
+      }
+    }
+  }
+}
+
+function turnTokens(turn: [ChatMessage, ChatMessage]): number {
+  return estimateTokens(turn[0].content) + estimateTokens(turn[1].content)
+}
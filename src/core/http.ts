@@ -0,0 +1,171 @@
+import { Buffer } from 'buffer'
+import { STATUS_CODES, type IncomingMessage, type ServerResponse } from 'http'
+import type { Duplex } from 'stream'
+
+/** 请求体大小上限，默认 1MB */
+const DEFAULT_BODY_LIMIT = 1024 * 1024
+
+/**
+ * 带 HTTP 状态码的错误，由请求处理器转换为 JSON 错误响应
+ */
+export class HttpError extends Error {
+  readonly status: number
+  readonly code?: string | number
+  readonly retryable?: boolean
+  /** 附加到错误响应体中的字段 */
+  readonly details?: Record<string, unknown>
+
+  constructor(
+    status: number,
+    message: string,
+    fields: { code?: string | number; retryable?: boolean; details?: Record<string, unknown> } = {},
+  ) {
+    super(message)
+    this.name = 'HttpError'
+    this.status = status
+    this.code = fields.code
+    this.retryable = fields.retryable
+    this.details = fields.details
+  }
+}
+
+/**
+ * 读取并解析 JSON 请求体
+ */
+export async function readJsonBody<T = unknown>(
+  req: IncomingMessage,
+  limit: number = DEFAULT_BODY_LIMIT,
+): Promise<T> {
+  // 框架（如 express.json()）已解析过请求体时，请求流已被读完
+  const parsed = (req as IncomingMessage & { body?: unknown }).body
+  if (parsed !== undefined && typeof parsed === 'object' && !Buffer.isBuffer(parsed)) {
+    return parsed as T
+  }
+
+  const contentType = req.headers['content-type'] ?? ''
+  if (contentType && !/^application\/json\b/i.test(contentType)) {
+    throw new HttpError(415, `unsupported content type: ${contentType}`)
+  }
+
+  const chunks: Uint8Array[] = []
+  let size = 0
+  for await (const chunk of req) {
+    size += chunk.length
+    if (size > limit) {
+      throw new HttpError(413, `request body exceeds ${limit} bytes`)
+    }
+    chunks.push(chunk)
+  }
+
+  const text = Buffer.concat(chunks).toString('utf8')
+  try {
+    return JSON.parse(text) as T
+  } catch {
+    throw new HttpError(400, 'request body is not valid JSON')
+  }
+}
+
+/**
+ * 发送 JSON 响应
+ */
+export function sendJson(
+  res: ServerResponse,
+  status: number,
+  body: unknown,
+  headers: Record<string, string> = {},
+): void {
+  const data = JSON.stringify(body)
+  res.writeHead(status, {
+    ...headers,
+    'Content-Type': 'application/json; charset=utf-8',
+    'Content-Length': Buffer.byteLength(data),
+  })
+  res.end(data)
+}
+
+/**
+ * 发送 JSON 错误响应：`{ error: { message, code?, retryable?, ...details } }`
+ */
+export function sendJsonError(res: ServerResponse, error: HttpError, headers: Record<string, string> = {}): void {
+  sendJson(res, error.status, {
+    error: {
+      ...error.details,
+      message: error.message,
+      ...(error.code !== undefined && { code: error.code }),
+      ...(error.retryable !== undefined && { retryable: error.retryable }),
+    },
+  }, headers)
+}
+
+/**
+ * 音频格式对应的 Content-Type
+ */
+export function audioContentType(format: 'mp3' | 'pcm' | 'wav' = 'mp3'): string {
+  switch (format) {
+    case 'wav':
+      return 'audio/wav'
+    case 'pcm':
+      return 'audio/pcm'
+    default:
+      return 'audio/mpeg'
+  }
+}
+
+/**
+ * 请求来源是否被允许；没有 Origin 头的请求（非浏览器客户端）总是允许
+ */
+export function isOriginAllowed(origin: string | undefined, allowed: string | string[] = '*'): boolean {
+  if (!origin) {
+    return true
+  }
+  const origins = Array.isArray(allowed) ? allowed : [allowed]
+  return origins.includes('*') || origins.includes(origin)
+}
+
+/**
+ * 为允许的来源写入 CORS 响应头
+ */
+export function setCorsHeaders(
+  res: ServerResponse,
+  origin: string | undefined,
+  allowed: string | string[] = '*',
+): void {
+  if (!origin || !isOriginAllowed(origin, allowed)) {
+    return
+  }
+  const wildcard = (Array.isArray(allowed) ? allowed : [allowed]).includes('*')
+  res.setHeader('Access-Control-Allow-Origin', wildcard ? '*' : origin)
+  if (!wildcard) {
+    res.setHeader('Vary', 'Origin')
+  }
+  res.setHeader('Access-Control-Expose-Headers', 'X-Request-Id')
+}
+
+/**
+ * 拒绝 WebSocket 升级请求，以 HTTP 响应返回 JSON 错误后关闭连接
+ */
+export function rejectUpgrade(
+  socket: Duplex,
+  error: HttpError,
+  headers: Record<string, string> = {},
+): void {
+  if (!socket.writable) {
+    socket.destroy()
+    return
+  }
+
+  const body = JSON.stringify({
+    error: {
+      message: error.message,
+      ...(error.code !== undefined && { code: error.code }),
+    },
+  })
+  const lines = [
+    `HTTP/1.1 ${error.status} ${STATUS_CODES[error.status] ?? ''}`,
+    'Connection: close',
+    'Content-Type: application/json; charset=utf-8',
+    `Content-Length: ${Buffer.byteLength(body)}`,
+    ...Object.entries(headers).map(([name, value]) => `${name}: ${value}`),
+  ]
+  socket.end(`${lines.join('\r\n')}\r\n\r\n${body}`)
+}
@@ -0,0 +1,253 @@
+import OpenAI from 'openai'
+import type { LLMMessage, LLMProvider, LLMRequest } from '../types'
+
+const DEFAULT_ANTHROPIC_BASE_URL = 'https://api.anthropic.com'
+const DEFAULT_ANTHROPIC_VERSION = '2023-06-01'
+
+/**
+ * 模型服务返回错误
+ */
+export class LLMProviderError extends Error {
+  /** HTTP 状态码，流式响应中途出错时为空 */
+  readonly status?: number
+  /** 限流或服务端错误，稍后重试可能成功 */
+  readonly retryable: boolean
+
+  constructor(message: string, status?: number) {
+    super(message)
+    this.name = 'LLMProviderError'
+    this.status = status
+    this.retryable = status === undefined || status === 429 || status >= 500
+  }
+}
+
+export interface OpenAICompatibleProviderOptions {
+  apiKey?: string
+  baseURL?: string
+  model: string
+  /** 使用已创建的客户端，忽略 apiKey 和 baseURL */
+  client?: OpenAI
+}
+
+/**
+ * OpenAI 兼容的 Chat Completions 接口（OpenAI、Kimi、DeepSeek、vLLM 等）
+ */
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly name = 'openai-compatible'
+  private readonly client: OpenAI
+  private readonly model: string
+
+  constructor(options: OpenAICompatibleProviderOptions) {
+    this.client = options.client ?? new OpenAI({ apiKey: options.apiKey, baseURL: options.baseURL })
+    this.model = options.model
+  }
+
+  async *stream(request: LLMRequest): AsyncGenerator<string> {
+    const completion = await this.client.chat.completions.create({
+      model: this.model,
+      messages: request.messages,
+      stream: true,
+    }, { signal: request.signal })
+
+    for await (const chunk of completion) {
+      const content = chunk.choices[0]?.delta.content
+      if (content) {
+        yield content
+      }
+    }
+  }
+}
+
+export interface AnthropicMessagesProviderOptions {
+  apiKey: string
+  model: string
+  /** 默认 https://api.anthropic.com，兼容 Messages 接口的代理或网关可替换 */
+  baseURL?: string
+  /** 单次回复的最大 token 数，默认 1024 */
+  maxTokens?: number
+  /** anthropic-version 请求头，默认 2023-06-01 */
+  version?: string
+  /** 额外的请求头 */
+  headers?: Record<string, string>
+}
+
+/**
+ * Anthropic Messages 接口（/v1/messages），通过 SSE 流式读取 text_delta
+ */
+export class AnthropicMessagesProvider implements LLMProvider {
+  readonly name = 'anthropic-messages'
+
+  constructor(private readonly options: AnthropicMessagesProviderOptions) {}
+
+  async *stream(request: LLMRequest): AsyncGenerator<string> {
+    // 系统提示词是单独的字段，不在 messages 中
+    const system = request.messages
+      .filter((message) => message.role === 'system')
+      .map((message) => message.content)
+      .join('\n\n')
+    const messages = request.messages.filter((message) => message.role !== 'system')
+
+    const baseURL = (this.options.baseURL ?? DEFAULT_ANTHROPIC_BASE_URL).replace(/\/+$/, '')
+    const response = await fetch(`${baseURL}/v1/messages`, {
+      method: 'POST',
+      headers: {
+        'content-type': 'application/json',
+        'x-api-key': this.options.apiKey,
+        'anthropic-version': this.options.version ?? DEFAULT_ANTHROPIC_VERSION,
+        ...this.options.headers,
+      },
+      body: JSON.stringify({
+        model: this.options.model,
+        max_tokens: this.options.maxTokens ?? 1024,
+        ...(system && { system }),
+        messages,
+        stream: true,
+      }),
+      signal: request.signal,
+    })
+
+    if (!response.ok || !response.body) {
+      const body = await response.text().catch(() => '')
+      throw new LLMProviderError(errorMessage(body) ?? `anthropic request failed with status ${response.status}`, response.status)
+    }
+
+    for await (const data of readServerSentEvents(response.body)) {
+      const event = JSON.parse(data)
+      if (event.type === 'content_block_delta' && event.delta?.type === 'text_delta' && event.delta.text) {
+        yield event.delta.text as string
+      } else if (event.type === 'error') {
+        throw new LLMProviderError(event.error?.message ?? 'anthropic stream error')
+      } else if (event.type === 'message_stop') {
+        return
+      }
+    }
+  }
+}
+
+/**
+ * 自带文本流：由调用方的 Agent 框架或其他模型 SDK 产出文本增量
+ *
+ * 每段文本之间检查取消信号，source 不处理 signal 时也能及时停止。
+ */
+export class IterableProvider implements LLMProvider {
+  readonly name = 'iterable'
+
+  constructor(private readonly source: (request: LLMRequest) => AsyncIterable<string> | Iterable<string>) {}
+
+  async *stream(request: LLMRequest): AsyncGenerator<string> {
+    request.signal?.throwIfAborted()
+    for await (const chunk of this.source(request)) {
+      request.signal?.throwIfAborted()
+      if (chunk) {
+        yield chunk
+      }
+    }
+  }
+}
+
+/** 脚本化回复：字符串整段产出，数组逐段产出，Error 表示该次调用失败 */
+export type ScriptedReply = string | string[] | Error
+
+export interface ScriptedLLMProviderOptions {
+  /** 每段文本之间的延迟（毫秒），默认 0 */
+  delayMs?: number
+  /** 回复用完后循环使用，默认 false（抛出错误） */
+  loop?: boolean
+}
+
+/**
+ * 按顺序返回预设回复的模型，用于测试和离线开发，不发起网络请求
+ */
+export class ScriptedLLMProvider implements LLMProvider {
+  readonly name = 'scripted'
+  /** 收到的请求，便于断言发送给模型的上下文 */
+  readonly requests: LLMRequest[] = []
+  private index = 0
+
+  constructor(
+    private readonly replies: ScriptedReply[],
+    private readonly options: ScriptedLLMProviderOptions = {},
+  ) {}
+
+  async *stream(request: LLMRequest): AsyncGenerator<string> {
+    this.requests.push({ messages: request.messages.map((message): LLMMessage => ({ ...message })) })
+
+    if (this.index >= this.replies.length && this.options.loop && this.replies.length > 0) {
+      this.index = 0
+    }
+    if (this.index >= this.replies.length) {
+      throw new LLMProviderError(`no scripted reply left (${this.replies.length} used)`, 500)
+    }
+
+    const reply = this.replies[this.index++]
+    if (reply instanceof Error) {
+      throw reply
+    }
+    for (const chunk of Array.isArray(reply) ? reply : [reply]) {
+      if (this.options.delayMs) {
+        await sleep(this.options.delayMs, request.signal)
+      }
+      request.signal?.throwIfAborted()
+      yield chunk
+    }
+  }
+}
+
+/**
+ * 逐个产出 SSE 事件的 data 字段
+ */
+async function* readServerSentEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const reader = body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ''
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read()
+      buffer += done ? decoder.decode() : decoder.decode(value, { stream: true })
+
+      let boundary = buffer.search(/\r?\n\r?\n/)
+      while (boundary !== -1) {
+        const block = buffer.slice(0, boundary)
+        buffer = buffer.slice(boundary).replace(/^\r?\n\r?\n/, '')
+        const data = block
+          .split(/\r?\n/)
+          .filter((line) => line.startsWith('data:'))
+          .map((line) => line.slice(5).trimStart())
+          .join('\n')
+        if (data) {
+          yield data
+        }
+        boundary = buffer.search(/\r?\n\r?\n/)
+      }
+
+      if (done) return
+    }
+  } finally {
+    reader.releaseLock()
+    await body.cancel().catch(() => {})
+  }
+}
+
+function errorMessage(body: string): string | undefined {
+  try {
+    return JSON.parse(body)?.error?.message
+  } catch {
+    return body || undefined
+  }
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    signal?.throwIfAborted()
+    const onAbort = () => {
+      clearTimeout(timer)
+      reject(signal!.reason)
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort)
+      resolve()
+    }, ms)
+    signal?.addEventListener('abort', onAbort, { once: true })
+  })
+}
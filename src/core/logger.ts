@@ -0,0 +1,44 @@
+import type { Logger, LogFields, LogLevel } from '../types'
+
+const LEVEL_ORDER: Record<LogLevel, number> = {
+  debug: 10,
+  info: 20,
+  warn: 30,
+  error: 40,
+  silent: 100,
+}
+
+/**
+ * 不输出任何内容的默认日志
+ */
+export const silentLogger: Logger = {
+  debug: () => {},
+  info: () => {},
+  warn: () => {},
+  error: () => {},
+}
+
+/**
+ * 创建输出到 console 的日志，低于 level 的日志会被丢弃
+ * @param level 最低输出级别，默认 info
+ */
+export function createConsoleLogger(level: LogLevel = 'info'): Logger {
+  const threshold = LEVEL_ORDER[level]
+  const write = (current: Exclude<LogLevel, 'silent'>) =>
+    (message: string, fields?: LogFields) => {
+      if (LEVEL_ORDER[current] < threshold) return
+      const line = `[tts] ${current.toUpperCase()} ${message}`
+      if (fields && Object.keys(fields).length > 0) {
+        console[current](line, fields)
+      } else {
+        console[current](line)
+      }
+    }
+
+  return {
+    debug: write('debug'),
+    info: write('info'),
+    warn: write('warn'),
+    error: write('error'),
+  }
+}
@@ -0,0 +1,395 @@
+import { Buffer } from 'buffer'
+import { createServer, type Server } from 'http'
+import type { AddressInfo } from 'net'
+import WebSocket, { WebSocketServer } from 'ws'
+import * as uuid from 'uuid'
+import {
+  EventType,
+  MsgType,
+  MsgTypeFlagBits,
+  createMessage,
+  marshalMessage,
+  unmarshalMessage,
+  type Message,
+} from './protocols'
+import { synthesizeTone, wordTimestamps } from './sine-provider'
+
+/**
+ * A fault the mock server applies instead of its normal reply
+ */
+export interface MockFault {
+  /** Client event that triggers the fault */
+  on: EventType
+  /**
+   * - `error`: reply with an Error frame
+   * - `failed`: reply with ConnectionFailed or SessionFailed
+   * - `malformed`: reply with bytes that cannot be decoded
+   * - `stall`: never reply
+   * - `close`: close the socket
+   */
+  kind: 'error' | 'failed' | 'malformed' | 'stall' | 'close'
+  /** Status code carried by `error` and `failed` faults */
+  code?: number
+  message?: string
+  /** Apply the fault this many times, default once */
+  times?: number
+}
+
+export interface MockVolcengineServerOptions {
+  /** Port to listen on, 0 picks a free one */
+  port?: number
+  host?: string
+  /** When set, connections with a different X-Api-Access-Key are refused */
+  accessKey?: string
+  /** Delay before every reply frame in milliseconds */
+  latencyMs?: number
+  /** Synthetic speech length per character in milliseconds */
+  msPerChar?: number
+  /** Size of each TTSResponse audio frame in bytes */
+  chunkSize?: number
+  /** Faults applied in order as their trigger events arrive */
+  faults?: MockFault[]
+}
+
+/**
+ * The fields of StartSession and TaskRequest payloads the mock reads
+ */
+interface MockRequestPayload {
+  req_params?: {
+    speaker?: string
+    text?: string
+    audio_params?: { sample_rate?: number }
+  }
+}
+
+interface MockSession {
+  speaker: string
+  sampleRate: number
+}
+
+/**
+ * Local stand-in for the Volcengine bidirectional TTS WebSocket service.
+ *
+ * It speaks the binary protocol of `protocols.ts` and answers every
+ * TaskRequest with TTSSentenceStart, TTSResponse audio frames, TTSSentenceEnd
+ * with word timestamps and finally TTSEnded. The audio is a 16-bit PCM sine
+ * tone derived from the text, so the same input always yields the same bytes.
+ */
+export class MockVolcengineServer {
+  private readonly options: Required<Omit<MockVolcengineServerOptions, 'accessKey' | 'faults'>> &
+    Pick<MockVolcengineServerOptions, 'accessKey'>
+  private readonly faults: MockFault[]
+  private server?: Server
+  private wss?: WebSocketServer
+  private port = 0
+  /** Every frame received from clients, in arrival order */
+  readonly received: Message[] = []
+
+  constructor(options: MockVolcengineServerOptions = {}) {
+    this.options = {
+      port: options.port ?? 0,
+      host: options.host ?? '127.0.0.1',
+      accessKey: options.accessKey,
+      latencyMs: options.latencyMs ?? 0,
+      msPerChar: options.msPerChar ?? 200,
+      chunkSize: options.chunkSize ?? 4096,
+    }
+    this.faults = [...(options.faults ?? [])]
+  }
+
+  /**
+   * URL to use as `tts.wsUrl`
+   */
+  get url(): string {
+    return `ws://${this.options.host}:${this.port}`
+  }
+
+  /**
+   * Start listening, resolves with the server URL
+   */
+  async start(): Promise<string> {
+    if (this.server) {
+      throw new Error('mock server already started')
+    }
+
+    this.server = createServer()
+    this.wss = new WebSocketServer({
+      server: this.server,
+      verifyClient: ({ req }, done) => {
+        const accessKey = this.options.accessKey
+        if (accessKey && req.headers['x-api-access-key'] !== accessKey) {
+          done(false, 401, 'invalid access key')
+          return
+        }
+        done(true)
+      },
+    })
+    this.wss.on('connection', (ws) => this.handleConnection(ws))
+
+    await new Promise<void>((resolve, reject) => {
+      this.server!.once('error', reject)
+      this.server!.listen(this.options.port, this.options.host, () => {
+        this.server!.off('error', reject)
+        resolve()
+      })
+    })
+    this.port = (this.server.address() as AddressInfo).port
+
+    return this.url
+  }
+
+  /**
+   * Close all connections and stop listening
+   */
+  async stop(): Promise<void> {
+    if (!this.server) return
+
+    for (const client of this.wss!.clients) {
+      client.terminate()
+    }
+    await new Promise<void>((resolve) => this.wss!.close(() => resolve()))
+    await new Promise<void>((resolve) => this.server!.close(() => resolve()))
+    this.server = undefined
+    this.wss = undefined
+  }
+
+  /**
+   * Queue a fault for the next matching client event
+   */
+  inject(fault: MockFault): void {
+    this.faults.push(fault)
+  }
+
+  /**
+   * Change the reply latency of subsequent frames
+   */
+  setLatency(latencyMs: number): void {
+    this.options.latencyMs = latencyMs
+  }
+
+  private handleConnection(ws: WebSocket): void {
+    const connectId = uuid.v4()
+    const sessions = new Map<string, MockSession>()
+    // Frames are handled one at a time so replies keep the request order
+    let queue = Promise.resolve()
+
+    ws.on('message', (data: WebSocket.RawData) => {
+      queue = queue
+        .then(() => this.handleFrame(ws, connectId, sessions, data as Buffer))
+        .catch(() => ws.terminate())
+    })
+  }
+
+  private async handleFrame(
+    ws: WebSocket,
+    connectId: string,
+    sessions: Map<string, MockSession>,
+    data: Buffer,
+  ): Promise<void> {
+    const msg = unmarshalMessage(new Uint8Array(data))
+    this.received.push(msg)
+
+    if (msg.event !== undefined && (await this.applyFault(ws, msg, connectId))) {
+      return
+    }
+
+    switch (msg.event) {
+      case EventType.StartConnection:
+        await this.reply(ws, EventType.ConnectionStarted, { connectId })
+        break
+
+      case EventType.FinishConnection:
+        await this.reply(ws, EventType.ConnectionFinished, { connectId })
+        ws.close()
+        break
+
+      case EventType.StartSession: {
+        const request = parseJson(msg.payload)
+        sessions.set(msg.sessionId!, {
+          speaker: request.req_params?.speaker ?? 'mock_speaker',
+          sampleRate: request.req_params?.audio_params?.sample_rate ?? 24000,
+        })
+        await this.reply(ws, EventType.SessionStarted, { sessionId: msg.sessionId })
+        break
+      }
+
+      case EventType.TaskRequest: {
+        const session = sessions.get(msg.sessionId!)
+        if (!session) {
+          await this.replyError(ws, 45000000, `unknown session: ${msg.sessionId}`)
+          break
+        }
+        const text = parseJson(msg.payload).req_params?.text ?? ''
+        await this.synthesize(ws, msg.sessionId!, session, text)
+        break
+      }
+
+      case EventType.FinishSession:
+        sessions.delete(msg.sessionId!)
+        await this.reply(ws, EventType.SessionFinished, { sessionId: msg.sessionId })
+        break
+
+      case EventType.CancelSession:
+        sessions.delete(msg.sessionId!)
+        await this.reply(ws, EventType.SessionCanceled, { sessionId: msg.sessionId })
+        break
+
+      default:
+        await this.replyError(ws, 45000000, `unsupported event: ${msg.event}`)
+    }
+  }
+
+  private async synthesize(
+    ws: WebSocket,
+    sessionId: string,
+    session: MockSession,
+    text: string,
+  ): Promise<void> {
+    for (const sentence of splitSentences(text)) {
+      await this.reply(ws, EventType.TTSSentenceStart, {
+        sessionId,
+        payload: { text: sentence },
+      })
+
+      const audio = synthesizeTone(sentence, session.sampleRate, this.options.msPerChar)
+      for (let offset = 0; offset < audio.length; offset += this.options.chunkSize) {
+        await this.reply(ws, EventType.TTSResponse, {
+          sessionId,
+          type: MsgType.AudioOnlyServer,
+          payload: audio.subarray(offset, offset + this.options.chunkSize),
+        })
+      }
+
+      await this.reply(ws, EventType.TTSSentenceEnd, {
+        sessionId,
+        payload: {
+          text: sentence,
+          words: wordTimestamps(sentence, this.options.msPerChar),
+        },
+      })
+    }
+
+    await this.reply(ws, EventType.TTSEnded, { sessionId })
+  }
+
+  private async applyFault(
+    ws: WebSocket,
+    msg: Message,
+    connectId: string,
+  ): Promise<boolean> {
+    const index = this.faults.findIndex((fault) => fault.on === msg.event)
+    if (index === -1) return false
+
+    const fault = this.faults[index]
+    if (fault.times === undefined || fault.times <= 1) {
+      this.faults.splice(index, 1)
+    } else {
+      fault.times--
+    }
+
+    const code = fault.code ?? 55000000
+    const message = fault.message ?? 'injected fault'
+
+    switch (fault.kind) {
+      case 'error':
+        await this.replyError(ws, code, message)
+        break
+      case 'failed': {
+        const connectionLevel =
+          msg.event === EventType.StartConnection ||
+          msg.event === EventType.FinishConnection
+        await this.reply(
+          ws,
+          connectionLevel ? EventType.ConnectionFailed : EventType.SessionFailed,
+          {
+            connectId,
+            sessionId: msg.sessionId,
+            payload: { status_code: code, message },
+          },
+        )
+        break
+      }
+      case 'malformed':
+        await this.delay()
+        ws.send(new Uint8Array([0x11, 0xf0]))
+        break
+      case 'stall':
+        break
+      case 'close':
+        ws.close(1011, message)
+        break
+    }
+
+    return true
+  }
+
+  private async reply(
+    ws: WebSocket,
+    event: EventType,
+    fields: {
+      type?: MsgType
+      sessionId?: string
+      connectId?: string
+      payload?: Uint8Array | object
+    },
+  ): Promise<void> {
+    const msg = createMessage(
+      fields.type ?? MsgType.FullServerResponse,
+      MsgTypeFlagBits.WithEvent,
+    )
+    msg.event = event
+    msg.sessionId = fields.sessionId
+    msg.connectId = fields.connectId
+    msg.payload =
+      fields.payload instanceof Uint8Array
+        ? fields.payload
+        : new TextEncoder().encode(JSON.stringify(fields.payload ?? {}))
+    await this.send(ws, marshalMessage(msg))
+  }
+
+  private async replyError(
+    ws: WebSocket,
+    code: number,
+    message: string,
+  ): Promise<void> {
+    const msg = createMessage(MsgType.Error, MsgTypeFlagBits.NoSeq)
+    msg.errorCode = code
+    msg.payload = new TextEncoder().encode(
+      JSON.stringify({ status_code: code, message }),
+    )
+    await this.send(ws, marshalMessage(msg))
+  }
+
+  private async send(ws: WebSocket, data: Uint8Array): Promise<void> {
+    await this.delay()
+    if (ws.readyState !== WebSocket.OPEN) return
+    await new Promise<void>((resolve, reject) => {
+      ws.send(data, (error?: Error) => (error ? reject(error) : resolve()))
+    })
+  }
+
+  private delay(): Promise<void> {
+    const latencyMs = this.options.latencyMs
+    return latencyMs > 0
+      ? new Promise((resolve) => setTimeout(resolve, latencyMs))
+      : Promise.resolve()
+  }
+}
+
+function parseJson(payload: Uint8Array): MockRequestPayload {
+  try {
+    const value: unknown = JSON.parse(new TextDecoder().decode(payload))
+    return typeof value === 'object' && value !== null ? (value as MockRequestPayload) : {}
+  } catch {
+    return {}
+  }
+}
+
+/**
+ * Split text after Chinese and English sentence-ending punctuation, keeping
+ * decimals such as 23.5 intact
+ */
+function splitSentences(text: string): string[] {
+  const sentences = text.split(/(?<=[。！？!?\n])|(?<=\.)(?!\d)/)
+  return sentences.map((s) => s.trim()).filter((s) => s.length > 0)
+}
@@ -0,0 +1,429 @@
+import type { TextNormalizationOptions, TextNormalizationRule } from '../types'
+
+/** 朗读语言 */
+export type NormalizationLanguage = 'zh' | 'en'
+
+const ZH_DIGITS = '零一二三四五六七八九'
+const ZH_UNITS = ['', '十', '百', '千']
+const ZH_SECTIONS = ['', '万', '亿', '万亿']
+
+const EN_ONES = [
+  'zero', 'one', 'two', 'three', 'four', 'five', 'six', 'seven', 'eight', 'nine', 'ten',
+  'eleven', 'twelve', 'thirteen', 'fourteen', 'fifteen', 'sixteen', 'seventeen', 'eighteen', 'nineteen',
+]
+const EN_TENS = ['', '', 'twenty', 'thirty', 'forty', 'fifty', 'sixty', 'seventy', 'eighty', 'ninety']
+const EN_SCALES = ['', 'thousand', 'million', 'billion', 'trillion']
+const EN_MONTHS = [
+  'January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December',
+]
+const EN_ORDINALS: Record<string, string> = {
+  one: 'first', two: 'second', three: 'third', five: 'fifth', eight: 'eighth', nine: 'ninth', twelve: 'twelfth',
+}
+
+/** 年份的上下文：in、since、year 之后，或紧跟月份（可带日期，如 March 15, 1999） */
+const EN_YEAR_CONTEXT = new RegExp(
+  `\\b(?:([Ii]n|[Ss]ince|[Yy]ear)|(${EN_MONTHS.join('|')})(?:\\s+(\\d{1,2})(?:st|nd|rd|th)?,?)?)\\s+(\\d{4})\\b(?![.,:/-]?\\d)`,
+  'g',
+)
+
+/** 货币符号的读法：中文单位，英文单数、复数和辅币 */
+const CURRENCIES: Record<string, { zh: string; en: [string, string, string, string] }> = {
+  '$': { zh: '美元', en: ['dollar', 'dollars', 'cent', 'cents'] },
+  '€': { zh: '欧元', en: ['euro', 'euros', 'cent', 'cents'] },
+  '£': { zh: '英镑', en: ['pound', 'pounds', 'penny', 'pence'] },
+  '¥': { zh: '元', en: ['yen', 'yen', '', ''] },
+  '￥': { zh: '元', en: ['yen', 'yen', '', ''] },
+}
+
+/** 常见英文缩写，只在后面跟空白时展开，避免误伤句末 */
+const ABBREVIATIONS: Array<[RegExp, string]> = [
+  [/\bDr\.(?=\s)/g, 'Doctor'],
+  [/\bMrs\.(?=\s)/g, 'Missus'],
+  [/\bMr\.(?=\s)/g, 'Mister'],
+  [/\bMs\.(?=\s)/g, 'Miz'],
+  [/\bProf\.(?=\s)/g, 'Professor'],
+  [/\bSt\.(?=\s+[A-Z])/g, 'Saint'],
+  [/\bJr\./g, 'Junior'],
+  [/\bSr\./g, 'Senior'],
+  [/\bvs\./gi, 'versus'],
+  [/\betc\./g, 'et cetera'],
+  [/\be\.g\./gi, 'for example'],
+  [/\bi\.e\./gi, 'that is'],
+  [/\bNo\.\s*(?=\d)/g, 'number '],
+]
+
+const URL_PATTERN = /\b(?:https?:\/\/|www\.)[^\s<>"'()\u3000-\u303f\u4e00-\u9fff\uff00-\uffef]+/gi
+const EMAIL_PATTERN = /\b[\w.+-]+@[A-Za-z0-9-]+(?:\.[A-Za-z0-9-]+)+\b/g
+const EMOJI_PATTERN = /(?:\p{Extended_Pictographic}|\p{Regional_Indicator})(?:\uFE0F|\u20E3|\p{Emoji_Modifier}|\u200D\p{Extended_Pictographic})*/gu
+
+/**
+ * 根据配置创建规范化函数：依次执行自定义规则、Markdown、emoji、网址和邮箱、英文缩写、数字，最后合并空白。
+ * 返回实际朗读的文本，可能为空字符串（整句只有代码或 emoji）
+ */
+export function createTextNormalizer(options: TextNormalizationOptions = {}): (text: string) => string {
+  const rules = (options.rules ?? []).map(compileRule)
+
+  return (text) => {
+    let result = text
+    for (const rule of rules) {
+      result = rule(result)
+    }
+    const language = options.language && options.language !== 'auto' ? options.language : detectLanguage(result)
+
+    if (options.markdown !== false) result = stripMarkdown(result)
+    if (options.emoji !== false) result = removeEmoji(result)
+    if (options.urls !== false) result = verbalizeUrls(result, language)
+    if (options.abbreviations !== false) result = expandAbbreviations(result)
+    if (options.numbers !== false) result = readNumbers(result, language)
+
+    // 数字和网址的读法两侧补了空格，标点前的空格去掉
+    return result.replace(/\s+/g, ' ').replace(/ (?=[,.;:!?，。；：！？、])/g, '').trim()
+  }
+}
+
+/**
+ * 按默认配置（或给定配置）规范化一段文本
+ */
+export function normalizeText(text: string, options: TextNormalizationOptions = {}): string {
+  return createTextNormalizer(options)(text)
+}
+
+/**
+ * 包含汉字按中文朗读，否则按英文
+ */
+export function detectLanguage(text: string): NormalizationLanguage {
+  return /[\u4e00-\u9fff]/.test(text) ? 'zh' : 'en'
+}
+
+/**
+ * 拼接逐句的朗读文本，英文之间补空格
+ */
+export function joinSentences(sentences: string[]): string {
+  return sentences.reduce((joined, sentence) => {
+    if (!joined) return sentence
+    return /[\x00-\x7f]$/.test(joined) && /^[\x00-\x7f]/.test(sentence) ? `${joined} ${sentence}` : `${joined}${sentence}`
+  }, '')
+}
+
+/**
+ * 去掉 Markdown 标记：代码块整体删除，链接和图片保留文字，标题、引用、列表符号、强调、表格分隔符去掉
+ */
+export function stripMarkdown(text: string): string {
+  return text
+    .replace(/```[\s\S]*?(?:```|$)/g, '')
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+    .replace(/<((?:https?:\/\/|mailto:)[^>\s]+)>/g, '$1')
+    .replace(/<\/?[A-Za-z][^>]*>/g, '')
+    .replace(/`([^`]*)`/g, '$1')
+    .replace(/^\s{0,3}#{1,6}\s+/gm, '')
+    .replace(/^\s{0,3}>\s?/gm, '')
+    .replace(/^\s*(?:[-*_]\s*){3,}$/gm, '')
+    .replace(/^\s*[-*+]\s+(?:\[[ xX]\]\s+)?/gm, '')
+    .replace(/^\s*\d+[.)]\s+/gm, '')
+    .replace(/^\s*\|?(?:\s*:?-{3,}:?\s*\|?)+\s*$/gm, '')
+    .replace(/^\s*\|(.*?)\|?\s*$/gm, (_, cells: string) => cells.split('|').map((cell) => cell.trim()).filter(Boolean).join(', '))
+    .replace(/(\*\*|__)(?=\S)([\s\S]*?\S)\1/g, '$2')
+    .replace(/~~(?=\S)([\s\S]*?\S)~~/g, '$1')
+    .replace(/(^|[^\w*])\*(?=\S)([^*\n]*?\S)\*(?![\w*])/g, '$1$2')
+    .replace(/(^|[^\w])_(?=\S)([^_\n]*?\S)_(?!\w)/g, '$1$2')
+}
+
+/**
+ * 去掉 emoji（含肤色、组合和国旗），以及残留的变体选择符
+ */
+export function removeEmoji(text: string): string {
+  return text.replace(EMOJI_PATTERN, '').replace(/[\uFE0F\u20E3\u200D]/g, '')
+}
+
+/**
+ * 网址只读域名，邮箱逐段朗读，如 www.example.com/path → example 点 com（英文为 example dot com）
+ */
+export function verbalizeUrls(text: string, language: NormalizationLanguage = detectLanguage(text)): string {
+  const words = language === 'zh'
+    ? { dot: ' 点 ', at: ' 艾特 ', underscore: ' 下划线 ', dash: ' 杠 ' }
+    : { dot: ' dot ', at: ' at ', underscore: ' underscore ', dash: ' dash ' }
+  const speak = (value: string) => value
+    .replace(/\./g, words.dot)
+    .replace(/_/g, words.underscore)
+    .replace(/-/g, words.dash)
+
+  return text
+    .replace(EMAIL_PATTERN, (email) => {
+      const [local, domain] = email.split('@')
+      return ` ${speak(local)}${words.at}${speak(domain)} `
+    })
+    .replace(URL_PATTERN, (url) => {
+      // 句末标点不属于网址
+      const trailing = /[.,;:!?]+$/.exec(url)?.[0] ?? ''
+      const host = url
+        .slice(0, url.length - trailing.length)
+        .replace(/^https?:\/\//i, '')
+        .replace(/^www\./i, '')
+        .split(/[/?#:]/)[0]
+      return ` ${speak(host)} ${trailing}`
+    })
+}
+
+/**
+ * 展开常见英文缩写（Dr. → Doctor、e.g. → for example）
+ */
+export function expandAbbreviations(text: string): string {
+  return ABBREVIATIONS.reduce((result, [pattern, replacement]) => result.replace(pattern, replacement), text)
+}
+
+/**
+ * 数字读法：日期、时间、货币、百分数、分数、范围、负数、小数和整数。
+ * 中文读作“百分之三点五”“二零二四年三月十五日”，英文读作“three point five percent”“March fifteenth, twenty twenty-four”
+ */
+export function readNumbers(text: string, language: NormalizationLanguage = detectLanguage(text)): string {
+  // 英文年份要在去掉千分位之前识别，带分隔符的数字（如 1,999）始终按数量读
+  const source = language === 'zh' ? text : readEnYears(text)
+  // 千分位分隔符
+  const plain = source.replace(/\d{1,3}(?:,\d{3})+(?![\d,])/g, (value) => value.replace(/,/g, ''))
+  return language === 'zh' ? readZhNumbers(plain) : readEnNumbers(plain)
+}
+
+function readZhNumbers(text: string): string {
+  return text
+    .replace(/(\d{4})[-/.年](\d{1,2})[-/.月](\d{1,2})日?/g, (match, year: string, month: string, day: string) =>
+      isDate(month, day) ? `${readDigits(year, 'zh')}年${readZhInteger(month)}月${readZhInteger(day)}日` : match)
+    .replace(/(\d{4})年/g, (_, year: string) => `${readDigits(year, 'zh')}年`)
+    .replace(DIGIT_GROUPS, (value) => readDigitGroups(value, 'zh'))
+    .replace(/(\d{1,2})月(\d{1,2})[日号]/g, (_, month: string, day: string) => `${readZhInteger(month)}月${readZhInteger(day)}日`)
+    .replace(/(\d{1,2}):(\d{2})(?::(\d{2}))?/g, (match, hour: string, minute: string, second?: string) => {
+      if (!isTime(hour, minute, second)) return match
+      const minutes = minute === '00' && !second ? '' : `${minute[0] === '0' && minute !== '00' ? '零' : ''}${readZhInteger(minute)}分`
+      return `${readZhInteger(hour)}点${minutes}${second ? `${readZhInteger(second)}秒` : ''}`
+    })
+    // “¥5元”只读一个“元”
+    .replace(/([$€£¥￥])\s?(\d+(?:\.\d+)?)(元)?/g, (_, symbol: string, amount: string, yuan?: string) =>
+      `${readZhNumber(amount)}${CURRENCIES[symbol].zh}${yuan && CURRENCIES[symbol].zh !== yuan ? yuan : ''}`)
+    .replace(/(-)?(\d+(?:\.\d+)?)\s?[%％]/g, (_, minus: string | undefined, value: string) => `${minus ? '负' : ''}百分之${readZhNumber(value)}`)
+    .replace(/(\d+)\/(\d+)/g, (_, numerator: string, denominator: string) => `${readZhInteger(denominator)}分之${readZhInteger(numerator)}`)
+    .replace(NUMBER_RANGE, '$1到')
+    .replace(/(^|[^\w.])-(?=\d)/g, '$1负')
+    .replace(/\d+(?:\.\d+)?/g, (value) => readZhNumber(value))
+}
+
+function readEnNumbers(text: string): string {
+  return text
+    .replace(/\b(\d{4})-(\d{2})-(\d{2})\b/g, (match, year: string, month: string, day: string) =>
+      isDate(month, day) ? ` ${EN_MONTHS[Number(month) - 1]} ${toOrdinal(readEnInteger(day))}, ${readEnYear(year)} ` : match)
+    .replace(DIGIT_GROUPS, (value) => readDigitGroups(value, 'en'))
+    .replace(/\b(\d{1,2}):(\d{2})\b/g, (match, hour: string, minute: string) => {
+      if (!isTime(hour, minute)) return match
+      const minutes = minute === '00' ? "o'clock" : minute[0] === '0' ? `oh ${readEnInteger(minute)}` : readEnInteger(minute)
+      return ` ${readEnInteger(hour)} ${minutes} `
+    })
+    .replace(/([$€£¥￥])\s?(\d+)(?:\.(\d{1,2}))?\b/g, (_, symbol: string, whole: string, fraction?: string) => {
+      const [unit, units, subunit, subunits] = CURRENCIES[symbol].en
+      let spoken = `${readEnInteger(whole)} ${Number(whole) === 1 ? unit : units}`
+      const cents = fraction ? Number(fraction.padEnd(2, '0')) : 0
+      if (cents > 0 && subunit) {
+        spoken += ` and ${readEnInteger(String(cents))} ${cents === 1 ? subunit : subunits}`
+      }
+      return ` ${spoken} `
+    })
+    .replace(/(-)?(\d+(?:\.\d+)?)\s?[%％]/g, (_, minus: string | undefined, value: string) => ` ${minus ? 'minus ' : ''}${readEnNumber(value)} percent `)
+    .replace(/\b(\d+)(st|nd|rd|th)\b/gi, (_, value: string) => ` ${toOrdinal(readEnInteger(value))} `)
+    .replace(/\b(\d+)\/(\d+)\b/g, (_, numerator: string, denominator: string) => ` ${readEnFraction(numerator, denominator)} `)
+    .replace(NUMBER_RANGE, '$1 to ')
+    .replace(/(^|[^\w.])-(?=\d)/g, '$1minus ')
+    .replace(/\d+(?:\.\d+)?/g, (value) => ` ${readEnNumber(value)} `)
+}
+
+/**
+ * 按年份读出处于年份上下文中的四位数：in 1999 → in nineteen ninety-nine，March 15, 1999 → March fifteenth, nineteen ninety-nine。
+ * 其余四位数仍按数量读
+ */
+function readEnYears(text: string): string {
+  return text.replace(EN_YEAR_CONTEXT, (match, word: string | undefined, month: string | undefined, day: string | undefined, year: string) => {
+    if (Number(year) <= 1000 || Number(year) >= 2100 || (day && !isDate('1', day))) return match
+    const spokenDay = day ? ` ${toOrdinal(readEnInteger(day))},` : ''
+    return `${word ?? month}${spokenDay} ${readEnYear(year)}`
+  })
+}
+
+/** 点分的多段版本号（1.2.3）和连字符分隔的数字串（010-12345678） */
+const DIGIT_GROUPS = /(?<![\d.-])(?:\d+(?:\.\d+){2,}|\d+(?:-\d+)+)(?!\.?\d|-\d)/g
+/** 范围只认两侧都不超过 6 位的数，如 10-20、3~5 */
+const NUMBER_RANGE = /(?<![\d.])(\d{1,6}(?:\.\d+)?)\s*[-~～]\s*(?=\d{1,6}(?:\.\d+)?(?!\.?\d))/g
+
+/**
+ * 版本号逐段逐位朗读（一点二点三 / one point two point three）；连字符分隔的数字串分段超过两段、
+ * 某段以 0 开头或超过 6 位时是电话、编号，逐位朗读，否则原样保留交给范围规则
+ */
+function readDigitGroups(value: string, language: NormalizationLanguage): string {
+  const pad = language === 'zh' ? '' : ' '
+  if (value.includes('.')) {
+    return `${pad}${value.split('.').map((group) => readDigits(group, language)).join(language === 'zh' ? '点' : ' point ')}${pad}`
+  }
+  const groups = value.split('-')
+  const isCode = groups.length > 2 || groups.some((group) => group.length > 6 || isSerialNumber(group))
+  return isCode ? `${pad}${groups.map((group) => readDigits(group, language)).join(' ')}${pad}` : value
+}
+
+function isDate(month: string, day: string): boolean {
+  return Number(month) >= 1 && Number(month) <= 12 && Number(day) >= 1 && Number(day) <= 31
+}
+
+function isTime(hour: string, minute: string, second?: string): boolean {
+  return Number(hour) <= 24 && Number(minute) < 60 && (second === undefined || Number(second) < 60)
+}
+
+/**
+ * 逐位朗读，用于年份、编号和过长的数字
+ */
+function readDigits(value: string, language: NormalizationLanguage): string {
+  return Array.from(value, (digit) => (language === 'zh' ? ZH_DIGITS[Number(digit)] : EN_ONES[Number(digit)])).join(language === 'zh' ? '' : ' ')
+}
+
+function readZhNumber(value: string): string {
+  const [whole, fraction] = value.split('.')
+  const spoken = isSerialNumber(whole) ? readDigits(whole, 'zh') : readZhInteger(whole)
+  return fraction ? `${spoken}点${readDigits(fraction, 'zh')}` : spoken
+}
+
+/**
+ * 中文整数读法，按万、亿分节，如 10050 → 一万零五十
+ */
+function readZhInteger(value: string): string {
+  const digits = value.replace(/^0+(?=\d)/, '')
+  if (digits.length > 16) return readDigits(digits, 'zh')
+  if (Number(digits) === 0) return '零'
+
+  const groups: string[] = []
+  for (let end = digits.length; end > 0; end -= 4) {
+    groups.unshift(digits.slice(Math.max(0, end - 4), end))
+  }
+
+  let result = ''
+  let skipped = false
+  groups.forEach((group, index) => {
+    const number = Number(group)
+    if (number === 0) {
+      skipped = true
+      return
+    }
+    // 中间有空节或本节不足千位时补“零”
+    if (result && (skipped || number < 1000)) {
+      result += '零'
+    }
+    result += readZhGroup(number) + ZH_SECTIONS[groups.length - 1 - index]
+    skipped = false
+  })
+  return result.replace(/^一十/, '十')
+}
+
+function readZhGroup(number: number): string {
+  const digits = String(number)
+  let result = ''
+  let zero = false
+  for (let i = 0; i < digits.length; i++) {
+    const digit = Number(digits[i])
+    if (digit === 0) {
+      zero = true
+      continue
+    }
+    if (zero) {
+      result += '零'
+      zero = false
+    }
+    result += ZH_DIGITS[digit] + ZH_UNITS[digits.length - 1 - i]
+  }
+  return result
+}
+
+function readEnNumber(value: string): string {
+  const [whole, fraction] = value.split('.')
+  const spoken = isSerialNumber(whole) ? readDigits(whole, 'en') : readEnInteger(whole)
+  return fraction ? `${spoken} point ${readDigits(fraction, 'en')}` : spoken
+}
+
+/**
+ * 英文整数读法，如 1234 → one thousand two hundred thirty-four
+ */
+function readEnInteger(value: string): string {
+  const digits = value.replace(/^0+(?=\d)/, '')
+  if (digits.length > 15) return readDigits(digits, 'en')
+  if (Number(digits) === 0) return 'zero'
+
+  const words: string[] = []
+  let scale = 0
+  for (let end = digits.length; end > 0; end -= 3, scale++) {
+    const group = Number(digits.slice(Math.max(0, end - 3), end))
+    if (group > 0) {
+      words.unshift(EN_SCALES[scale] ? `${readEnHundreds(group)} ${EN_SCALES[scale]}` : readEnHundreds(group))
+    }
+  }
+  return words.join(' ')
+}
+
+function readEnHundreds(number: number): string {
+  const hundreds = Math.floor(number / 100)
+  const rest = number % 100
+  const parts = hundreds > 0 ? [`${EN_ONES[hundreds]} hundred`] : []
+  if (rest > 0) parts.push(readEnTens(rest))
+  return parts.join(' ')
+}
+
+function readEnTens(number: number): string {
+  if (number < 20) return EN_ONES[number]
+  const ones = number % 10
+  return ones ? `${EN_TENS[Math.floor(number / 10)]}-${EN_ONES[ones]}` : EN_TENS[Math.floor(number / 10)]
+}
+
+/**
+ * 年份读法：1999 → nineteen ninety-nine，2005 → two thousand five，1900 → nineteen hundred
+ */
+function readEnYear(value: string): string {
+  const year = Number(value)
+  if (year >= 2000 && year < 2010) {
+    return readEnInteger(value)
+  }
+  const century = Math.floor(year / 100)
+  const rest = year % 100
+  if (rest === 0) return `${readEnTens(century)} hundred`
+  return `${readEnTens(century)} ${rest < 10 ? `oh ${EN_ONES[rest]}` : readEnTens(rest)}`
+}
+
+function readEnFraction(numerator: string, denominator: string): string {
+  const plural = Number(numerator) !== 1
+  const spokenNumerator = readEnInteger(numerator)
+  if (denominator === '2') return `${spokenNumerator} ${plural ? 'halves' : 'half'}`
+  if (denominator === '4') return `${spokenNumerator} ${plural ? 'quarters' : 'quarter'}`
+  return `${spokenNumerator} ${toOrdinal(readEnInteger(denominator))}${plural ? 's' : ''}`
+}
+
+/**
+ * 基数词转序数词：twenty-one → twenty-first
+ */
+function toOrdinal(cardinal: string): string {
+  const match = /^(.*?)([a-z]+)$/.exec(cardinal)
+  if (!match) return cardinal
+  const [, prefix, last] = match
+  const ordinal = EN_ORDINALS[last] ?? (last.endsWith('y') ? `${last.slice(0, -1)}ieth` : `${last}th`)
+  return `${prefix}${ordinal}`
+}
+
+/**
+ * 以 0 开头或超过 10 位的数字（电话、编号）逐位朗读
+ */
+function isSerialNumber(digits: string): boolean {
+  return (digits.length > 1 && digits[0] === '0') || digits.length > 10
+}
+
+/**
+ * 字符串按字面全局替换，正则表达式总是全局替换
+ */
+function compileRule(rule: TextNormalizationRule): (text: string) => string {
+  const pattern = typeof rule.pattern === 'string'
+    ? new RegExp(rule.pattern.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), 'g')
+    : new RegExp(rule.pattern.source, rule.pattern.flags.includes('g') ? rule.pattern.flags : `${rule.pattern.flags}g`)
+  const replacement = rule.replacement
+  return typeof replacement === 'string'
+    ? (text) => text.replace(pattern, replacement)
+    : (text) => text.replace(pattern, replacement)
+}
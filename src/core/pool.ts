@@ -0,0 +1,310 @@
+import type { VolcengineChannel } from './channel'
+import { silentLogger } from './logger'
+import {
+  initWebScoketInstance,
+  startSession,
+  validateSynthesisOptions,
+  type TTSSession,
+} from './tts'
+import type {
+  Logger,
+  SynthesisOptions,
+  VolcengineTTSConfig,
+  VolcenginePoolOptions,
+} from '../types'
+
+interface IdleEntry {
+  channel: VolcengineChannel
+  timer: ReturnType<typeof setTimeout>
+}
+
+interface PendingAcquire {
+  /** Set once the acquire has been resolved, rejected or timed out */
+  settled: boolean
+  resolve: (channel: VolcengineChannel) => void
+  reject: (error: Error) => void
+}
+
+/**
+ * Pool of authenticated Volcengine connections.
+ *
+ * The v3 protocol allows several sequential sessions on one connection, so
+ * a connection is leased for the lifetime of a session and put back after
+ * SessionFinished instead of being torn down with FinishConnection. Idle
+ * connections are closed after `idleTimeoutMs`, connections that die are
+ * dropped and replaced on demand (or right away to honour `minIdle`).
+ */
+export class VolcenginePool {
+  private readonly config: VolcengineTTSConfig
+  private readonly logger: Logger
+  private readonly maxSize: number
+  private readonly minIdle: number
+  private readonly idleTimeoutMs: number
+  private readonly acquireTimeoutMs: number
+  private idle: IdleEntry[] = []
+  private leased = new Set<VolcengineChannel>()
+  /** Connections being opened, counted against maxSize */
+  private connecting = 0
+  private pending: PendingAcquire[] = []
+  private closed = false
+
+  constructor(
+    config: VolcengineTTSConfig,
+    options: VolcenginePoolOptions = {},
+    logger: Logger = silentLogger,
+  ) {
+    this.config = config
+    this.logger = logger
+    this.maxSize = Math.max(1, options.maxSize ?? 4)
+    this.minIdle = Math.min(options.minIdle ?? 0, this.maxSize)
+    this.idleTimeoutMs = options.idleTimeoutMs ?? 60000
+    this.acquireTimeoutMs = options.acquireTimeoutMs ?? 30000
+  }
+
+  /**
+   * Number of open connections, leased or idle
+   */
+  get size(): number {
+    return this.idle.length + this.leased.size + this.connecting
+  }
+
+  /**
+   * Pool usage snapshot
+   */
+  getStats(): { size: number; idle: number; leased: number; pending: number } {
+    return {
+      size: this.size,
+      idle: this.idle.length,
+      leased: this.leased.size,
+      pending: this.pending.length,
+    }
+  }
+
+  /**
+   * Open connections until `minIdle` idle connections are available
+   */
+  async warmUp(): Promise<void> {
+    const missing = Math.min(this.minIdle - this.idle.length, this.maxSize - this.size)
+    await Promise.all(
+      Array.from({ length: Math.max(0, missing) }, async () => {
+        const channel = await this.open()
+        this.release(channel, true)
+      }),
+    )
+  }
+
+  /**
+   * Lease a connection, waiting when the pool is full
+   */
+  async acquire(): Promise<VolcengineChannel> {
+    if (this.closed) {
+      throw new Error('connection pool closed')
+    }
+
+    while (this.idle.length > 0) {
+      const entry = this.idle.pop()!
+      clearTimeout(entry.timer)
+      if (!entry.channel.closed) {
+        this.leased.add(entry.channel)
+        return entry.channel
+      }
+    }
+
+    if (this.size < this.maxSize) {
+      const channel = await this.open()
+      if (this.closed) {
+        channel.close()
+        throw new Error('connection pool closed')
+      }
+      this.leased.add(channel)
+      return channel
+    }
+
+    return new Promise<VolcengineChannel>((resolve, reject) => {
+      const entry: PendingAcquire = {
+        settled: false,
+        resolve: (channel) => {
+          if (entry.settled) return
+          entry.settled = true
+          clearTimeout(timer)
+          resolve(channel)
+        },
+        reject: (error) => {
+          if (entry.settled) return
+          entry.settled = true
+          clearTimeout(timer)
+          reject(error)
+        },
+      }
+      const timer = setTimeout(() => {
+        // replenish() may already have taken the waiter off the queue
+        const index = this.pending.indexOf(entry)
+        if (index !== -1) {
+          this.pending.splice(index, 1)
+        }
+        entry.reject(new Error(`no connection available within ${this.acquireTimeoutMs}ms`))
+      }, this.acquireTimeoutMs)
+      this.pending.push(entry)
+    })
+  }
+
+  /**
+   * Return a leased connection; broken ones are closed instead of reused
+   */
+  release(channel: VolcengineChannel, reusable: boolean): void {
+    this.leased.delete(channel)
+
+    if (!reusable || channel.closed || this.closed) {
+      channel.close()
+      this.replenish()
+      return
+    }
+
+    const waiter = this.nextWaiter()
+    if (waiter) {
+      this.leased.add(channel)
+      waiter.resolve(channel)
+      return
+    }
+
+    const entry: IdleEntry = {
+      channel,
+      timer: setTimeout(() => this.evict(entry), this.idleTimeoutMs),
+    }
+    this.idle.push(entry)
+  }
+
+  /**
+   * Start a session on a pooled connection. `finished()` ends the session and
+   * hands the connection back, `close()` discards the connection.
+   */
+  async startSession(
+    config?: Partial<VolcengineTTSConfig>,
+    options?: SynthesisOptions,
+  ): Promise<TTSSession> {
+    // Reject bad options before a connection is leased for them
+    validateSynthesisOptions(options)
+    const channel = await this.acquire()
+    let session: TTSSession
+    try {
+      session = await startSession(channel, { ...this.config, ...config }, options)
+    } catch (error) {
+      this.release(channel, false)
+      throw error
+    }
+
+    let released = false
+    const release = (reusable: boolean) => {
+      if (released) return
+      released = true
+      this.release(channel, reusable)
+    }
+
+    return {
+      ...session,
+      finished: async () => {
+        try {
+          await session.end()
+          release(true)
+        } catch (error) {
+          release(false)
+          throw error
+        }
+      },
+      close: () => {
+        release(false)
+      },
+    }
+  }
+
+  /**
+   * Close every connection and reject pending acquires
+   */
+  close(): void {
+    this.closed = true
+    for (const waiter of this.pending.splice(0)) {
+      waiter.reject(new Error('connection pool closed'))
+    }
+    for (const entry of this.idle.splice(0)) {
+      clearTimeout(entry.timer)
+      entry.channel.close()
+    }
+    for (const channel of this.leased) {
+      channel.close()
+    }
+    this.leased.clear()
+  }
+
+  private async open(): Promise<VolcengineChannel> {
+    this.connecting++
+    try {
+      const channel = await initWebScoketInstance(this.config, this.logger)
+      channel.ws.once('close', () => this.handleClose(channel))
+      return channel
+    } finally {
+      this.connecting--
+    }
+  }
+
+  private handleClose(channel: VolcengineChannel): void {
+    const index = this.idle.findIndex((entry) => entry.channel === channel)
+    if (index !== -1) {
+      clearTimeout(this.idle[index].timer)
+      this.idle.splice(index, 1)
+      this.logger.debug('pooled connection closed while idle')
+      this.replenish()
+    }
+  }
+
+  private evict(entry: IdleEntry): void {
+    const index = this.idle.indexOf(entry)
+    if (index === -1) return
+    if (this.idle.length <= this.minIdle) {
+      entry.timer = setTimeout(() => this.evict(entry), this.idleTimeoutMs)
+      return
+    }
+    this.idle.splice(index, 1)
+    entry.channel.close()
+  }
+
+  /**
+   * Take the oldest acquire that is still waiting
+   */
+  private nextWaiter(): PendingAcquire | undefined {
+    let waiter = this.pending.shift()
+    while (waiter?.settled) {
+      waiter = this.pending.shift()
+    }
+    return waiter
+  }
+
+  /**
+   * Serve a waiting acquire or restore minIdle after a connection went away
+   */
+  private replenish(): void {
+    if (this.closed) return
+
+    const waiter = this.nextWaiter()
+    if (waiter) {
+      this.open().then(
+        (channel) => {
+          if (waiter.settled) {
+            // The acquire timed out while connecting; keep the connection for the next caller
+            this.release(channel, true)
+            return
+          }
+          this.leased.add(channel)
+          waiter.resolve(channel)
+        },
+        (error) => waiter.reject(error),
+      )
+      return
+    }
+
+    if (this.idle.length < this.minIdle) {
+      this.warmUp().catch((error) => {
+        this.logger.warn('failed to replace pooled connection', { error })
+      })
+    }
+  }
+}
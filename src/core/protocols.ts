@@ -1,5 +1,8 @@
 import { Buffer } from 'buffer'
+import { gzipSync, gunzipSync } from 'zlib'
 import WebSocket from 'ws'
+import type { Logger } from '../types'
+import { silentLogger } from './logger'
 
 /**
  * Event type definitions, corresponding to protobuf generated event types
@@ -203,11 +206,53 @@ export function createMessage(
   return msg as Message
 }
 
+/**
+ * Compress a payload according to the compression bits of the header
+ */
+export function compressPayload(
+  payload: Uint8Array,
+  compression: CompressionBits,
+): Uint8Array {
+  switch (compression) {
+    case CompressionBits.None:
+      return payload
+    case CompressionBits.Gzip:
+      return new Uint8Array(gzipSync(payload))
+    default:
+      throw new Error(`unsupported compression: ${compression}`)
+  }
+}
+
+/**
+ * Decompress a payload according to the compression bits of the header
+ */
+export function decompressPayload(
+  payload: Uint8Array,
+  compression: CompressionBits,
+): Uint8Array {
+  switch (compression) {
+    case CompressionBits.None:
+      return payload
+    case CompressionBits.Gzip:
+      if (payload.length === 0) return payload
+      return new Uint8Array(gunzipSync(payload))
+    default:
+      throw new Error(`unsupported compression: ${compression}`)
+  }
+}
+
 /**
  * Message serialization
+ *
+ * The payload is compressed on the wire when `msg.compression` asks for it,
+ * `msg` itself is left untouched.
  */
 export function marshalMessage(msg: Message): Uint8Array {
   const buffers: Uint8Array[] = []
+  const wireMsg: Message =
+    msg.compression === CompressionBits.None
+      ? msg
+      : { ...msg, payload: compressPayload(msg.payload, msg.compression) }
 
   // Build base header
   const headerSize = 4 * msg.headerSize
@@ -220,9 +265,9 @@ export function marshalMessage(msg: Message): Uint8Array {
   buffers.push(header)
 
   // Write fields based on message type and flags
-  const writers = getWriters(msg)
+  const writers = getWriters(wireMsg)
   for (const writer of writers) {
-    const data = writer(msg)
+    const data = writer(wireMsg)
     if (data) buffers.push(data)
   }
 
@@ -241,6 +286,8 @@ export function marshalMessage(msg: Message): Uint8Array {
 
 /**
  * Message deserialization
+ *
+ * Compressed payloads are inflated, so callers always see the plain payload.
  */
 export function unmarshalMessage(data: Uint8Array): Message {
   if (data.length < 3) {
@@ -284,7 +331,10 @@ export function unmarshalMessage(data: Uint8Array): Message {
     offset = reader(msg as Message, data, offset)
   }
 
-  return msg as Message
+  const result = msg as Message
+  result.payload = decompressPayload(result.payload, result.compression)
+
+  return result
 }
 
 // Internal helper functions for serialization/deserialization
@@ -292,7 +342,7 @@ function getWriters(msg: Message): Array<(msg: Message) => Uint8Array | null> {
   const writers: Array<(msg: Message) => Uint8Array | null> = []
 
   if (msg.flag === MsgTypeFlagBits.WithEvent) {
-    writers.push(writeEvent, writeSessionId)
+    writers.push(writeEvent, writeSessionId, writeConnectId)
   }
 
   switch (msg.type) {
@@ -371,6 +421,7 @@ function writeSessionId(msg: Message): Uint8Array | null {
     case EventType.FinishConnection:
     case EventType.ConnectionStarted:
     case EventType.ConnectionFailed:
+    case EventType.ConnectionFinished:
       return null
   }
 
@@ -387,6 +438,30 @@ function writeSessionId(msg: Message): Uint8Array | null {
   return result
 }
 
+function writeConnectId(msg: Message): Uint8Array | null {
+  if (msg.event === undefined) return null
+
+  switch (msg.event) {
+    case EventType.ConnectionStarted:
+    case EventType.ConnectionFailed:
+    case EventType.ConnectionFinished:
+      break
+    default:
+      return null
+  }
+
+  const connectIdBytes = Buffer.from(msg.connectId || '', 'utf8')
+  const sizeBuffer = new ArrayBuffer(4)
+  const sizeView = new DataView(sizeBuffer)
+  sizeView.setUint32(0, connectIdBytes.length, false)
+
+  const result = new Uint8Array(4 + connectIdBytes.length)
+  result.set(new Uint8Array(sizeBuffer), 0)
+  result.set(connectIdBytes, 4)
+
+  return result
+}
+
 function writeSequence(msg: Message): Uint8Array | null {
   if (msg.sequence === undefined) return null
   const buffer = new ArrayBuffer(4)
@@ -526,168 +601,86 @@ function readPayload(msg: Message, data: Uint8Array, offset: number): number {
   return offset
 }
 
-const messageQueues = new Map<WebSocket, Message[]>()
-const messageCallbacks = new Map<WebSocket, ((msg: Message) => void)[]>()
-
-function setupMessageHandler(ws: WebSocket) {
-  if (!messageQueues.has(ws)) {
-    messageQueues.set(ws, [])
-    messageCallbacks.set(ws, [])
-
-    ws.on('message', (data: WebSocket.RawData) => {
-      try {
-        let uint8Data: Uint8Array
-        if (Buffer.isBuffer(data)) {
-          uint8Data = new Uint8Array(data)
-        } else if (data instanceof ArrayBuffer) {
-          uint8Data = new Uint8Array(data)
-        } else if (data instanceof Uint8Array) {
-          uint8Data = data
-        } else {
-          throw new Error(`Unexpected WebSocket message type: ${typeof data}`)
-        }
-
-        const msg = unmarshalMessage(uint8Data)
-        const queue = messageQueues.get(ws)!
-        const callbacks = messageCallbacks.get(ws)!
-
-        if (callbacks.length > 0) {
-          // If there are waiting callbacks, process message immediately
-          const callback = callbacks.shift()!
-          callback(msg)
-        } else {
-          // Otherwise, queue the message
-          queue.push(msg)
-        }
-      } catch (error) {
-        throw new Error(`Error processing message: ${error}`)
-      }
-    })
-
-    ws.on('close', () => {
-      messageQueues.delete(ws)
-      messageCallbacks.delete(ws)
-    })
-  }
-}
-
-export async function ReceiveMessage(ws: WebSocket): Promise<Message> {
-  setupMessageHandler(ws)
-
+/**
+ * Send a frame, logging its metadata but never its payload
+ */
+function sendMessage(
+  ws: WebSocket,
+  msg: Message,
+  logger: Logger,
+): Promise<void> {
+  logger.debug('send frame', {
+    event:
+      msg.event !== undefined
+        ? getEventTypeName(msg.event)
+        : getMsgTypeName(msg.type),
+    sessionId: msg.sessionId,
+    payloadSize: msg.payload.length,
+  })
+  const data = marshalMessage(msg)
   return new Promise((resolve, reject) => {
-    const queue = messageQueues.get(ws)!
-    const callbacks = messageCallbacks.get(ws)!
-
-    // If there are messages in the queue, process one immediately
-    if (queue.length > 0) {
-      resolve(queue.shift()!)
-      return
-    }
-
-    // Otherwise, wait for the next message
-    const errorHandler = (error: WebSocket.ErrorEvent) => {
-      const index = callbacks.findIndex((cb) => cb === resolver)
-      if (index !== -1) {
-        callbacks.splice(index, 1)
-      }
-      reject(error)
-    }
-
-    const resolver = (msg: Message) => {
-      ws.removeListener('error', errorHandler)
-      resolve(msg)
-    }
-
-    callbacks.push(resolver)
-    ws.once('error', errorHandler)
+    ws.send(data, (error?: Error) => {
+      if (error) reject(error)
+      else resolve()
+    })
   })
 }
 
-export async function WaitForEvent(
-  ws: WebSocket,
-  msgType: MsgType,
-  eventType: EventType,
-): Promise<Message> {
-  const msg = await ReceiveMessage(ws)
-  if (msg.type !== msgType || msg.event !== eventType) {
-    throw new Error(
-      `Unexpected message: type=${getMsgTypeName(msg.type)}, event=${getEventTypeName(msg.event || 0)}`,
-    )
-  }
-  return msg
-}
-
 export async function FullClientRequest(
   ws: WebSocket,
   payload: Uint8Array,
+  compression: CompressionBits = CompressionBits.None,
+  logger: Logger = silentLogger,
 ): Promise<void> {
   const msg = createMessage(MsgType.FullClientRequest, MsgTypeFlagBits.NoSeq)
+  msg.compression = compression
   msg.payload = payload
-  console.log(`${msg.toString()}`)
-  const data = marshalMessage(msg)
-  return new Promise((resolve, reject) => {
-    ws.send(data, (error?: Error) => {
-      if (error) reject(error)
-      else resolve()
-    })
-  })
+  return sendMessage(ws, msg, logger)
 }
 
 export async function AudioOnlyClient(
   ws: WebSocket,
   payload: Uint8Array,
   flag: MsgTypeFlagBits,
+  logger: Logger = silentLogger,
 ): Promise<void> {
   const msg = createMessage(MsgType.AudioOnlyClient, flag)
   msg.payload = payload
-  console.log(`${msg.toString()}`)
-  const data = marshalMessage(msg)
-  return new Promise((resolve, reject) => {
-    ws.send(data, (error?: Error) => {
-      if (error) reject(error)
-      else resolve()
-    })
-  })
+  return sendMessage(ws, msg, logger)
 }
 
-export async function StartConnection(ws: WebSocket): Promise<void> {
+export async function StartConnection(
+  ws: WebSocket,
+  logger: Logger = silentLogger,
+): Promise<void> {
   const msg = createMessage(
     MsgType.FullClientRequest,
     MsgTypeFlagBits.WithEvent,
   )
   msg.event = EventType.StartConnection
   msg.payload = new TextEncoder().encode('{}')
-  console.log(`${msg.toString()}`)
-  const data = marshalMessage(msg)
-  return new Promise((resolve, reject) => {
-    ws.send(data, (error?: Error) => {
-      if (error) reject(error)
-      else resolve()
-    })
-  })
+  return sendMessage(ws, msg, logger)
 }
 
-export async function FinishConnection(ws: WebSocket): Promise<void> {
+export async function FinishConnection(
+  ws: WebSocket,
+  logger: Logger = silentLogger,
+): Promise<void> {
   const msg = createMessage(
     MsgType.FullClientRequest,
     MsgTypeFlagBits.WithEvent,
   )
   msg.event = EventType.FinishConnection
   msg.payload = new TextEncoder().encode('{}')
-  console.log(`${msg.toString()}`)
-  const data = marshalMessage(msg)
-  return new Promise((resolve, reject) => {
-    ws.send(data, (error?: Error) => {
-      if (error) reject(error)
-      else resolve()
-    })
-  })
+  return sendMessage(ws, msg, logger)
 }
 
 export async function StartSession(
   ws: WebSocket,
   payload: Uint8Array,
   sessionId: string,
+  compression: CompressionBits = CompressionBits.None,
+  logger: Logger = silentLogger,
 ): Promise<void> {
   const msg = createMessage(
     MsgType.FullClientRequest,
@@ -695,20 +688,15 @@ export async function StartSession(
   )
   msg.event = EventType.StartSession
   msg.sessionId = sessionId
+  msg.compression = compression
   msg.payload = payload
-  console.log(`${msg.toString()}`)
-  const data = marshalMessage(msg)
-  return new Promise((resolve, reject) => {
-    ws.send(data, (error?: Error) => {
-      if (error) reject(error)
-      else resolve()
-    })
-  })
+  return sendMessage(ws, msg, logger)
 }
 
 export async function FinishSession(
   ws: WebSocket,
   sessionId: string,
+  logger: Logger = silentLogger,
 ): Promise<void> {
   const msg = createMessage(
     MsgType.FullClientRequest,
@@ -717,19 +705,13 @@ export async function FinishSession(
   msg.event = EventType.FinishSession
   msg.sessionId = sessionId
   msg.payload = new TextEncoder().encode('{}')
-  console.log(`${msg.toString()}`)
-  const data = marshalMessage(msg)
-  return new Promise((resolve, reject) => {
-    ws.send(data, (error?: Error) => {
-      if (error) reject(error)
-      else resolve()
-    })
-  })
+  return sendMessage(ws, msg, logger)
 }
 
 export async function CancelSession(
   ws: WebSocket,
   sessionId: string,
+  logger: Logger = silentLogger,
 ): Promise<void> {
   const msg = createMessage(
     MsgType.FullClientRequest,
@@ -738,20 +720,15 @@ export async function CancelSession(
   msg.event = EventType.CancelSession
   msg.sessionId = sessionId
   msg.payload = new TextEncoder().encode('{}')
-  console.log(`${msg.toString()}`)
-  const data = marshalMessage(msg)
-  return new Promise((resolve, reject) => {
-    ws.send(data, (error?: Error) => {
-      if (error) reject(error)
-      else resolve()
-    })
-  })
+  return sendMessage(ws, msg, logger)
 }
 
 export async function TaskRequest(
   ws: WebSocket,
   payload: Uint8Array,
   sessionId: string,
+  compression: CompressionBits = CompressionBits.None,
+  logger: Logger = silentLogger,
 ): Promise<void> {
   const msg = createMessage(
     MsgType.FullClientRequest,
@@ -759,13 +736,7 @@ export async function TaskRequest(
   )
   msg.event = EventType.TaskRequest
   msg.sessionId = sessionId
+  msg.compression = compression
   msg.payload = payload
-  console.log(`${msg.toString()}`)
-  const data = marshalMessage(msg)
-  return new Promise((resolve, reject) => {
-    ws.send(data, (error?: Error) => {
-      if (error) reject(error)
-      else resolve()
-    })
-  })
+  return sendMessage(ws, msg, logger)
 }
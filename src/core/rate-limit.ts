@@ -0,0 +1,255 @@
+import type {
+  RateLimitKind,
+  RateLimitOptions,
+  RateLimitScope,
+  RateLimitUsage,
+} from '../types'
+
+const MINUTE_MS = 60 * 1000
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/**
+ * 令牌桶：容量为 capacity，每 intervalMs 匀速补满一次
+ */
+export class TokenBucket {
+  private tokens: number
+  private updatedAt: number
+
+  constructor(
+    readonly capacity: number,
+    private readonly intervalMs: number,
+    private readonly now: () => number = Date.now,
+  ) {
+    this.tokens = capacity
+    this.updatedAt = now()
+  }
+
+  /**
+   * 当前可用的令牌数，透支时为负数
+   */
+  get available(): number {
+    this.refill()
+    return this.tokens
+  }
+
+  /**
+   * 凑齐 amount 个令牌还需等待的毫秒数，0 表示立即可用；超过容量时永远凑不齐，返回 Infinity
+   */
+  waitTime(amount: number): number {
+    if (amount > this.capacity) {
+      return Infinity
+    }
+    const deficit = amount - this.available
+    return deficit <= 0 ? 0 : Math.ceil((deficit * this.intervalMs) / this.capacity)
+  }
+
+  /**
+   * 扣除令牌，允许透支（对话的字符数在合成过程中才知道）
+   */
+  consume(amount: number): void {
+    this.refill()
+    this.tokens -= amount
+  }
+
+  private refill(): void {
+    const now = this.now()
+    const elapsed = now - this.updatedAt
+    this.updatedAt = now
+    this.tokens = Math.min(this.capacity, this.tokens + (elapsed * this.capacity) / this.intervalMs)
+  }
+}
+
+/**
+ * 超出限流配置时抛出
+ */
+export class RateLimitError extends Error {
+  readonly code = 'rate_limited'
+  /** 超出的限制 */
+  readonly limit: RateLimitKind
+  /** 超出的是客户端还是调用方的限制 */
+  readonly scope: RateLimitScope
+  /** 建议的重试等待时间（毫秒）；并发数超限或请求本身超过额度时为空 */
+  readonly retryAfterMs?: number
+
+  constructor(limit: RateLimitKind, scope: RateLimitScope, retryAfterMs?: number) {
+    super(describeViolation(limit, scope, retryAfterMs))
+    this.name = 'RateLimitError'
+    this.limit = limit
+    this.scope = scope
+    this.retryAfterMs = retryAfterMs
+  }
+}
+
+/**
+ * 一次请求占用的配额，请求结束时必须 release
+ */
+export interface RateLimitLease {
+  /** 记录合成过程中才确定的字符数 */
+  consume(characters: number): void
+  /** 释放并发名额，可重复调用 */
+  release(): void
+}
+
+/**
+ * 单个客户端或调用方的用量
+ */
+class UsageCounter {
+  private readonly requests?: TokenBucket
+  private readonly characters?: TokenBucket
+  private readonly maxConcurrent?: number
+  active = 0
+  totalRequests = 0
+  totalCharacters = 0
+
+  constructor(options: RateLimitOptions, now?: () => number) {
+    if (options.requestsPerMinute !== undefined) {
+      this.requests = new TokenBucket(options.requestsPerMinute, MINUTE_MS, now)
+    }
+    if (options.charactersPerDay !== undefined) {
+      this.characters = new TokenBucket(options.charactersPerDay, DAY_MS, now)
+    }
+    this.maxConcurrent = options.maxConcurrentSessions
+  }
+
+  /**
+   * 检查能否开始新请求，返回第一个超出的限制
+   */
+  check(characters: number): { limit: RateLimitKind; retryAfterMs?: number } | undefined {
+    if (this.maxConcurrent !== undefined && this.active >= this.maxConcurrent) {
+      return { limit: 'concurrency' }
+    }
+
+    const requestWait = this.requests?.waitTime(1) ?? 0
+    if (requestWait > 0) {
+      return { limit: 'requests', retryAfterMs: finiteOrUndefined(requestWait) }
+    }
+
+    // 对话开始时字符数未知，只要求额度没有用完
+    const characterWait = this.characters?.waitTime(Math.max(characters, 1)) ?? 0
+    if (characterWait > 0) {
+      return { limit: 'characters', retryAfterMs: finiteOrUndefined(characterWait) }
+    }
+    return undefined
+  }
+
+  start(characters: number): void {
+    this.requests?.consume(1)
+    this.totalRequests++
+    this.active++
+    this.consume(characters)
+  }
+
+  consume(characters: number): void {
+    if (characters <= 0) return
+    this.characters?.consume(characters)
+    this.totalCharacters += characters
+  }
+
+  usage(): RateLimitUsage {
+    return {
+      requests: this.totalRequests,
+      characters: this.totalCharacters,
+      activeSessions: this.active,
+      ...(this.requests && { remainingRequests: Math.max(0, Math.floor(this.requests.available)) }),
+      ...(this.characters && { remainingCharacters: Math.max(0, Math.floor(this.characters.available)) }),
+    }
+  }
+}
+
+/**
+ * 按客户端（WebSocket 连接）和调用方（认证身份）两个维度限流并统计用量
+ *
+ * 不配置限制时只统计用量。
+ */
+export class RateLimiter {
+  private readonly clients = new Map<string, UsageCounter>()
+  private readonly principals = new Map<string, UsageCounter>()
+
+  constructor(
+    private readonly options: { perClient?: RateLimitOptions; perPrincipal?: RateLimitOptions } = {},
+    private readonly now?: () => number,
+  ) {}
+
+  /**
+   * 开始一个请求：两个维度的请求频率、字符额度和并发数全部通过后才扣除
+   * @param clientId 客户端 ID；认证的 REST 请求没有客户端维度，未认证的按来源地址计
+   * @param principalId 调用方 ID，未认证时为空
+   * @param characters 请求开始时已知的字符数
+   * @throws RateLimitError
+   */
+  acquire(clientId: string | undefined, principalId: string | undefined, characters = 0): RateLimitLease {
+    const scopes: Array<[RateLimitScope, UsageCounter]> = []
+    if (clientId !== undefined) {
+      scopes.push(['client', this.counter(this.clients, clientId, this.options.perClient)])
+    }
+    if (principalId !== undefined) {
+      scopes.push(['principal', this.counter(this.principals, principalId, this.options.perPrincipal)])
+    }
+
+    for (const [scope, counter] of scopes) {
+      const violation = counter.check(characters)
+      if (violation) {
+        throw new RateLimitError(violation.limit, scope, violation.retryAfterMs)
+      }
+    }
+
+    scopes.forEach(([, counter]) => counter.start(characters))
+
+    let released = false
+    return {
+      consume: (amount) => scopes.forEach(([, counter]) => counter.consume(amount)),
+      release: () => {
+        if (released) return
+        released = true
+        scopes.forEach(([, counter]) => counter.active--)
+      },
+    }
+  }
+
+  /**
+   * 客户端的用量
+   */
+  getClientUsage(clientId: string): RateLimitUsage {
+    return (this.clients.get(clientId) ?? new UsageCounter(this.options.perClient ?? {}, this.now)).usage()
+  }
+
+  /**
+   * 调用方的用量，包含其所有连接和 REST 请求
+   */
+  getPrincipalUsage(principalId: string): RateLimitUsage {
+    return (this.principals.get(principalId) ?? new UsageCounter(this.options.perPrincipal ?? {}, this.now)).usage()
+  }
+
+  /**
+   * 客户端断开后移除其计数；调用方的计数保留，重新连接不会重置额度
+   */
+  deleteClient(clientId: string): void {
+    this.clients.delete(clientId)
+  }
+
+  private counter(map: Map<string, UsageCounter>, key: string, options: RateLimitOptions = {}): UsageCounter {
+    let counter = map.get(key)
+    if (!counter) {
+      counter = new UsageCounter(options, this.now)
+      map.set(key, counter)
+    }
+    return counter
+  }
+}
+
+function finiteOrUndefined(value: number): number | undefined {
+  return Number.isFinite(value) ? value : undefined
+}
+
+function describeViolation(limit: RateLimitKind, scope: RateLimitScope, retryAfterMs?: number): string {
+  switch (limit) {
+    case 'concurrency':
+      return `${scope} has too many concurrent sessions`
+    case 'requests':
+      return `${scope} request rate exceeded, retry after ${retryAfterMs}ms`
+    case 'characters':
+      return retryAfterMs === undefined
+        ? `text exceeds the ${scope} daily character quota`
+        : `${scope} daily character quota exceeded, retry after ${retryAfterMs}ms`
+  }
+}
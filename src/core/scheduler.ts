@@ -0,0 +1,195 @@
+import type { SchedulerOptions } from '../types'
+
+const DEFAULT_QUEUE_TIMEOUT_MS = 30000
+
+/**
+ * 排队失败的原因
+ */
+export type SchedulerErrorCode = 'queue_full' | 'queue_timeout' | 'scheduler_closed'
+
+/**
+ * 请求无法获得会话名额时抛出
+ */
+export class SchedulerError extends Error {
+  readonly code: SchedulerErrorCode
+  /** 稍后重试可能成功 */
+  readonly retryable = true
+
+  constructor(code: SchedulerErrorCode, message: string) {
+    super(message)
+    this.name = 'SchedulerError'
+    this.code = code
+  }
+}
+
+/**
+ * 占用中的会话名额，会话结束时必须 release
+ */
+export interface SchedulerSlot {
+  /** 释放名额，可重复调用 */
+  release(): void
+}
+
+/**
+ * 排队的请求
+ */
+export interface ScheduledJob {
+  /** 优先级，数值越大越先执行，默认 0；仅 priority 队列生效 */
+  priority?: number
+  /** 中止时离开队列，acquire 以 signal.reason 拒绝 */
+  signal?: AbortSignal
+  /** 进入队列时调用，position 从 1 开始 */
+  onQueued?: (position: number, queueSize: number) => void
+  /** 排队位置变化时调用 */
+  onPositionChange?: (position: number, queueSize: number) => void
+}
+
+interface Waiter {
+  job: ScheduledJob
+  priority: number
+  position: number
+  resolve: (slot: SchedulerSlot) => void
+  reject: (error: unknown) => void
+  cleanup: () => void
+}
+
+/**
+ * 全局 TTS 会话调度：限制同时进行的会话数，超出的请求按先到先得或优先级排队
+ */
+export class SessionScheduler {
+  private readonly maxConcurrent: number
+  private readonly mode: 'fifo' | 'priority'
+  private readonly maxQueueSize: number
+  private readonly queueTimeoutMs: number
+  private active = 0
+  private queue: Waiter[] = []
+
+  constructor(options: SchedulerOptions = {}) {
+    this.maxConcurrent = Math.max(1, options.maxConcurrentSessions ?? Infinity)
+    this.mode = options.queue ?? 'fifo'
+    this.maxQueueSize = options.maxQueueSize ?? Infinity
+    this.queueTimeoutMs = options.queueTimeoutMs ?? DEFAULT_QUEUE_TIMEOUT_MS
+  }
+
+  /**
+   * 运行和排队中的请求数
+   */
+  getStats(): { active: number; queued: number; maxConcurrent?: number } {
+    return {
+      active: this.active,
+      queued: this.queue.length,
+      ...(Number.isFinite(this.maxConcurrent) && { maxConcurrent: this.maxConcurrent }),
+    }
+  }
+
+  /**
+   * 获取会话名额，没有空闲名额时排队等待
+   * @throws SchedulerError 队列已满或排队超时
+   */
+  acquire(job: ScheduledJob = {}): Promise<SchedulerSlot> {
+    job.signal?.throwIfAborted()
+
+    if (this.active < this.maxConcurrent && this.queue.length === 0) {
+      this.active++
+      return Promise.resolve(this.createSlot())
+    }
+
+    if (this.queue.length >= this.maxQueueSize) {
+      return Promise.reject(new SchedulerError('queue_full', `session queue is full (${this.maxQueueSize})`))
+    }
+
+    return new Promise<SchedulerSlot>((resolve, reject) => {
+      const waiter: Waiter = {
+        job,
+        priority: job.priority ?? 0,
+        position: 0,
+        resolve,
+        reject,
+        cleanup: () => {},
+      }
+
+      const leave = (error: unknown) => {
+        const index = this.queue.indexOf(waiter)
+        if (index === -1) return
+        this.queue.splice(index, 1)
+        waiter.cleanup()
+        reject(error)
+        this.notifyPositions()
+      }
+
+      const timer = this.queueTimeoutMs > 0
+        ? setTimeout(
+          () => leave(new SchedulerError('queue_timeout', `waited ${this.queueTimeoutMs}ms for a TTS session`)),
+          this.queueTimeoutMs,
+        )
+        : undefined
+      const onAbort = () => leave(job.signal!.reason)
+      job.signal?.addEventListener('abort', onAbort, { once: true })
+      waiter.cleanup = () => {
+        clearTimeout(timer)
+        job.signal?.removeEventListener('abort', onAbort)
+      }
+
+      this.enqueue(waiter)
+      waiter.position = this.queue.indexOf(waiter) + 1
+      job.onQueued?.(waiter.position, this.queue.length)
+      // 优先级队列中插队会让后面的请求后移
+      this.notifyPositions()
+    })
+  }
+
+  /**
+   * 拒绝所有排队中的请求，已占用的名额不受影响
+   */
+  clear(): void {
+    for (const waiter of this.queue.splice(0)) {
+      waiter.cleanup()
+      waiter.reject(new SchedulerError('scheduler_closed', 'scheduler closed'))
+    }
+  }
+
+  private enqueue(waiter: Waiter): void {
+    if (this.mode === 'fifo') {
+      this.queue.push(waiter)
+      return
+    }
+    // 优先级相同时先到先得
+    const index = this.queue.findIndex((queued) => queued.priority < waiter.priority)
+    if (index === -1) {
+      this.queue.push(waiter)
+    } else {
+      this.queue.splice(index, 0, waiter)
+    }
+  }
+
+  private createSlot(): SchedulerSlot {
+    let released = false
+    return {
+      release: () => {
+        if (released) return
+        released = true
+        this.active--
+        this.drain()
+      },
+    }
+  }
+
+  private drain(): void {
+    while (this.active < this.maxConcurrent && this.queue.length > 0) {
+      const waiter = this.queue.shift()!
+      waiter.cleanup()
+      this.active++
+      waiter.resolve(this.createSlot())
+    }
+    this.notifyPositions()
+  }
+
+  private notifyPositions(): void {
+    this.queue.forEach((waiter, index) => {
+      if (waiter.position !== index + 1) {
+        waiter.position = index + 1
+        waiter.job.onPositionChange?.(waiter.position, this.queue.length)
+      }
+    })
+  }
+}
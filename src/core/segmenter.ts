@@ -0,0 +1,179 @@
+/**
+ * 句子切分配置
+ */
+export interface SentenceSegmenterOptions {
+  /** 不视为句末的英文缩写（不含末尾的点），大小写不敏感 */
+  abbreviations?: string[]
+  /** 短于该长度的句子会与下一句合并后再输出，默认 0 */
+  minLength?: number
+}
+
+const DEFAULT_ABBREVIATIONS = [
+  'mr', 'mrs', 'ms', 'dr', 'prof', 'sr', 'jr', 'st', 'vs', 'etc',
+  'e.g', 'i.e', 'a.m', 'p.m', 'u.s', 'u.k', 'no', 'fig', 'inc', 'ltd',
+]
+
+/** 中文句末标点，出现即断句 */
+const CJK_TERMINATORS = new Set(['。', '！', '？', '；', '…'])
+/** 英文句末标点，后面跟空白或结束才断句 */
+const LATIN_TERMINATORS = new Set(['.', '!', '?', ';'])
+/** 句末标点后可以跟随的收尾符号 */
+const CLOSERS = new Set(['"', "'", '”', '’', '」', '』', '）', ')', ']', '】', '》', '*', '_'])
+
+/**
+ * 流式句子切分器
+ *
+ * 将 LLM 逐段输出的文本切分成完整句子，支持中英文标点，并避免在小数、
+ * 英文缩写、有序列表序号处断句。Markdown 的换行段落视为句子边界，
+ * 代码块在闭合前不会被切开。
+ *
+ * @example
+ * const segmenter = new SentenceSegmenter()
+ * for await (const delta of stream) {
+ *   for (const sentence of segmenter.push(delta)) await session.send(sentence)
+ * }
+ * const rest = segmenter.flush()
+ */
+export class SentenceSegmenter {
+  private buffer = ''
+  private pending = ''
+  private readonly abbreviations: Set<string>
+  private readonly minLength: number
+
+  constructor(options: SentenceSegmenterOptions = {}) {
+    this.abbreviations = new Set(
+      (options.abbreviations ?? DEFAULT_ABBREVIATIONS).map((a) => a.toLowerCase()),
+    )
+    this.minLength = options.minLength ?? 0
+  }
+
+  /**
+   * 追加文本，返回已经完整的句子
+   */
+  push(text: string): string[] {
+    this.buffer += text
+    const sentences: string[] = []
+
+    let end: number
+    while ((end = this.findBoundary()) !== -1) {
+      const sentence = this.buffer.slice(0, end).trim()
+      this.buffer = this.buffer.slice(end)
+      this.emit(sentence, sentences)
+    }
+
+    return sentences
+  }
+
+  /**
+   * 文本结束，返回剩余未成句的内容
+   */
+  flush(): string | undefined {
+    const rest = `${this.pending}${this.buffer}`.trim()
+    this.buffer = ''
+    this.pending = ''
+    return rest || undefined
+  }
+
+  private emit(sentence: string, out: string[]): void {
+    if (!sentence) return
+    const joined = this.pending ? `${this.pending}${joiner(this.pending, sentence)}${sentence}` : sentence
+    if (Array.from(joined).length < this.minLength) {
+      this.pending = joined
+      return
+    }
+    this.pending = ''
+    out.push(joined)
+  }
+
+  /**
+   * 查找第一个句子边界，返回句子结束位置（不含），找不到返回 -1
+   */
+  private findBoundary(): number {
+    const text = this.buffer
+    let inFence = false
+
+    for (let i = 0; i < text.length; i++) {
+      // 代码块：``` 开启后直到闭合都不断句，闭合行结束处作为边界
+      if (text.startsWith('```', i) && isLineStart(text, i)) {
+        const lineEnd = text.indexOf('\n', i)
+        if (inFence) {
+          return lineEnd === -1 ? -1 : lineEnd + 1
+        }
+        inFence = true
+        if (lineEnd === -1) return -1
+        i = lineEnd
+        continue
+      }
+      if (inFence) continue
+
+      const char = text[i]
+
+      // Markdown 段落与列表项：换行即边界（忽略只有空白的部分）
+      if (char === '\n') {
+        if (text.slice(0, i).trim()) return i + 1
+        continue
+      }
+
+      if (CJK_TERMINATORS.has(char)) {
+        // 连续标点（……、？！）和引号要跟在句子里，看到之后的字符才能确定结尾
+        const end = this.extendClosers(i + 1)
+        return end < text.length ? end : -1
+      }
+
+      if (LATIN_TERMINATORS.has(char)) {
+        // 需要看到下一个字符才能确定是否为句末
+        if (i + 1 >= text.length) return -1
+        const next = text[i + 1]
+        if (char === '.' && this.isNonTerminalDot(i)) continue
+        const end = this.extendClosers(i + 1)
+        if (end >= text.length) return -1
+        if (/\s/.test(text[end]) || next === '\n') return end
+      }
+    }
+
+    return -1
+  }
+
+  /**
+   * 小数、缩写、有序列表序号、省略号中的点不是句末
+   */
+  private isNonTerminalDot(index: number): boolean {
+    const text = this.buffer
+    const prev = text[index - 1] ?? ''
+    const next = text[index + 1] ?? ''
+
+    if (/\d/.test(prev) && /\d/.test(next)) return true
+    if (next === '.' || prev === '.') return true
+
+    const word = /([A-Za-z.]+)$/.exec(text.slice(0, index))?.[1]
+    if (word && this.abbreviations.has(word.toLowerCase())) return true
+    // 单个大写字母，如人名缩写 "J. K. Rowling"
+    if (word && /^[A-Z]$/.test(word)) return true
+
+    // 行首的 "1." 是有序列表序号
+    const lineStart = text.lastIndexOf('\n', index - 1) + 1
+    if (/^\s*\d+$/.test(text.slice(lineStart, index))) return true
+
+    return false
+  }
+
+  private extendClosers(end: number): number {
+    const text = this.buffer
+    while (
+      end < text.length &&
+      (CLOSERS.has(text[end]) || CJK_TERMINATORS.has(text[end]) || '!?'.includes(text[end]))
+    ) {
+      end++
+    }
+    return end
+  }
+}
+
+function isLineStart(text: string, index: number): boolean {
+  const lineStart = text.lastIndexOf('\n', index - 1) + 1
+  return text.slice(lineStart, index).trim() === ''
+}
+
+function joiner(left: string, right: string): string {
+  return /[\x00-\x7f]$/.test(left) && /^[\x00-\x7f]/.test(right) ? ' ' : ''
+}
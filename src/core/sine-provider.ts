@@ -0,0 +1,228 @@
+import { SentenceSegmenter } from './segmenter'
+import { validateSynthesisOptions } from './tts'
+import type {
+  SynthesisOptions,
+  TTSProvider,
+  TTSProviderSession,
+  TTSSessionEvent,
+  TTSSessionRequest,
+  TTSWord,
+} from '../types'
+
+export interface SineWaveTTSProviderOptions {
+  /** 每个字符的音频时长（毫秒），默认 200 */
+  msPerChar?: number
+  /** 每个音频分片的字节数，默认 4096 */
+  chunkSize?: number
+  /** 每句开始合成前的延迟（毫秒），用于模拟网络延迟，默认 0 */
+  latencyMs?: number
+}
+
+/**
+ * 离线正弦波 TTS：不访问任何服务，把每句文本合成为音高由文本决定的正弦音，并按字符生成时间戳。
+ * 用于演示和测试，只支持 pcm 和 wav（每句音频带独立的 WAV 头）
+ */
+export class SineWaveTTSProvider implements TTSProvider {
+  readonly name = 'sine'
+  private readonly options: Required<SineWaveTTSProviderOptions>
+  private sessions = 0
+
+  constructor(options: SineWaveTTSProviderOptions = {}) {
+    this.options = {
+      msPerChar: options.msPerChar ?? 200,
+      chunkSize: options.chunkSize ?? 4096,
+      latencyMs: options.latencyMs ?? 0,
+    }
+  }
+
+  async startSession(request: TTSSessionRequest): Promise<TTSProviderSession> {
+    validateSynthesisOptions(request.options)
+    if (request.audioFormat !== 'pcm' && request.audioFormat !== 'wav') {
+      throw new RangeError(`正弦波 TTS 只支持 pcm 和 wav 格式，当前: ${request.audioFormat}`)
+    }
+    return new SineWaveSession(`sine_${++this.sessions}`, request, this.options)
+  }
+}
+
+/**
+ * 单个正弦波会话，send 的文本排队依次合成
+ */
+class SineWaveSession implements TTSProviderSession {
+  private texts: string[] = []
+  private inputFinished = false
+  private stopped?: Error
+  private wake?: () => void
+
+  constructor(
+    readonly sessionId: string,
+    private readonly request: TTSSessionRequest,
+    private readonly options: Required<SineWaveTTSProviderOptions>,
+  ) {}
+
+  async send(text: string): Promise<void> {
+    if (this.stopped) throw this.stopped
+    if (this.inputFinished) throw new Error('session input already finished')
+    this.texts.push(text)
+    this.notify()
+  }
+
+  async finishInput(): Promise<void> {
+    this.inputFinished = true
+    this.notify()
+  }
+
+  async *events(options: { signal?: AbortSignal } = {}): AsyncGenerator<TTSSessionEvent> {
+    const { signal } = options
+    const onAbort = () => this.notify()
+    signal?.addEventListener('abort', onAbort)
+
+    try {
+      while (true) {
+        signal?.throwIfAborted()
+        if (this.stopped) throw this.stopped
+
+        const text = this.texts.shift()
+        if (text === undefined) {
+          if (this.inputFinished) {
+            yield { type: 'ended' }
+            return
+          }
+          await new Promise<void>((resolve) => {
+            this.wake = resolve
+          })
+          continue
+        }
+
+        for (const sentence of splitSentences(text)) {
+          if (this.options.latencyMs > 0) {
+            await new Promise((resolve) => setTimeout(resolve, this.options.latencyMs))
+          }
+          signal?.throwIfAborted()
+          if (this.stopped) throw this.stopped
+          yield* this.synthesizeSentence(sentence)
+        }
+      }
+    } finally {
+      signal?.removeEventListener('abort', onAbort)
+    }
+  }
+
+  async cancel(): Promise<void> {
+    this.texts = []
+    this.inputFinished = true
+  }
+
+  async finished(): Promise<void> {
+    this.close()
+  }
+
+  close(): void {
+    if (!this.stopped) {
+      this.stopped = new Error('session closed')
+    }
+    this.texts = []
+    this.notify()
+  }
+
+  private *synthesizeSentence(sentence: string): Generator<TTSSessionEvent> {
+    const { sampleRate, audioFormat, options } = this.request
+    const msPerChar = this.options.msPerChar / (options.rate ?? 1)
+
+    yield { type: 'sentenceStart', text: sentence }
+
+    const pcm = synthesizeTone(sentence, sampleRate, msPerChar, options)
+    const audio = audioFormat === 'wav' ? withWavHeader(pcm, sampleRate) : pcm
+    for (let offset = 0; offset < audio.length; offset += this.options.chunkSize) {
+      yield { type: 'audio', data: audio.subarray(offset, offset + this.options.chunkSize) }
+    }
+
+    yield {
+      type: 'sentenceEnd',
+      text: sentence,
+      words: wordTimestamps(sentence, msPerChar),
+      duration: Math.round(Array.from(sentence).length * msPerChar),
+    }
+  }
+
+  private notify(): void {
+    const wake = this.wake
+    this.wake = undefined
+    wake?.()
+  }
+}
+
+function splitSentences(text: string): string[] {
+  const segmenter = new SentenceSegmenter()
+  const sentences = segmenter.push(text)
+  const rest = segmenter.flush()
+  return rest ? [...sentences, rest] : sentences
+}
+
+/**
+ * 逐词时间（秒），每个汉字连同其后的标点算一个词
+ */
+export function wordTimestamps(sentence: string, msPerChar: number): TTSWord[] {
+  const words = sentence.match(/[\u4e00-\u9fff][，。！？；：、]*|[^\s\u4e00-\u9fff]+/g) ?? []
+  let cursor = 0
+  return words.map((word) => {
+    const startTime = cursor
+    cursor += (Array.from(word).length * msPerChar) / 1000
+    return { word, startTime, endTime: cursor }
+  })
+}
+
+/**
+ * 16 位小端 PCM 正弦音，音高由文本决定，相同输入总是得到相同的字节。
+ * pitch 按半音升降音高，volume 调整振幅
+ */
+export function synthesizeTone(
+  sentence: string,
+  sampleRate: number,
+  msPerChar: number,
+  options: Pick<SynthesisOptions, 'pitch' | 'volume'> = {},
+): Uint8Array {
+  let hash = 0
+  for (const char of sentence) {
+    hash = (hash * 31 + char.codePointAt(0)!) >>> 0
+  }
+  const frequency = (220 + (hash % 440)) * Math.pow(2, (options.pitch ?? 0) / 12)
+  const amplitude = Math.min(0x7fff, Math.round(0x3fff * (options.volume ?? 1)))
+  const samples = Math.round(
+    (sampleRate * Array.from(sentence).length * msPerChar) / 1000,
+  )
+
+  const audio = new Uint8Array(samples * 2)
+  const view = new DataView(audio.buffer)
+  for (let i = 0; i < samples; i++) {
+    const value = Math.sin((2 * Math.PI * frequency * i) / sampleRate)
+    view.setInt16(i * 2, Math.round(value * amplitude), true)
+  }
+  return audio
+}
+
+/**
+ * 为 16 位单声道 PCM 加上 44 字节的 WAV 头
+ */
+function withWavHeader(pcm: Uint8Array, sampleRate: number): Uint8Array {
+  const wav = new Uint8Array(44 + pcm.length)
+  const view = new DataView(wav.buffer)
+  const writeString = (offset: number, value: string) => {
+    for (let i = 0; i < value.length; i++) view.setUint8(offset + i, value.charCodeAt(i))
+  }
+
+  writeString(0, 'RIFF')
+  view.setUint32(4, 36 + pcm.length, true)
+  writeString(8, 'WAVE')
+  writeString(12, 'fmt ')
+  view.setUint32(16, 16, true)
+  view.setUint16(20, 1, true)
+  view.setUint16(22, 1, true)
+  view.setUint32(24, sampleRate, true)
+  view.setUint32(28, sampleRate * 2, true)
+  view.setUint16(32, 2, true)
+  view.setUint16(34, 16, true)
+  writeString(36, 'data')
+  view.setUint32(40, pcm.length, true)
+  wav.set(pcm, 44)
+  return wav
+}
@@ -0,0 +1,393 @@
+import { createHash } from 'crypto'
+import { mkdir, readdir, readFile, rename, rm, stat, utimes, writeFile } from 'fs/promises'
+import { join } from 'path'
+import { silentLogger } from './logger'
+import type {
+  KeyValueAdapter,
+  Logger,
+  SynthesisCacheEntry,
+  SynthesisCacheOptions,
+  SynthesisCacheStats,
+  SynthesisCacheStore,
+  SynthesisOptions,
+} from '../types'
+
+const DEFAULT_TTL_MS = 24 * 60 * 60 * 1000
+const DEFAULT_MAX_ENTRIES = 1000
+const DEFAULT_MEMORY_MAX_BYTES = 64 * 1024 * 1024
+const DEFAULT_FILESYSTEM_MAX_BYTES = 1024 * 1024 * 1024
+const DEFAULT_MAX_TEXT_LENGTH = 500
+/** 编码格式版本，格式变化时旧记录解码失败，按未命中处理 */
+const ENTRY_VERSION = 1
+
+/**
+ * 决定缓存键的合成参数
+ */
+export interface SynthesisCacheKeyParams {
+  /** TTS 服务名称，不同服务的音频不能混用 */
+  provider?: string
+  /** 实际使用的发音人 */
+  speaker: string
+  format: 'mp3' | 'pcm' | 'wav'
+  sampleRate: number
+  options?: SynthesisOptions
+}
+
+/**
+ * 缓存键使用的文本：统一 Unicode 形式，合并连续空白并去掉首尾空白
+ */
+export function normalizeCacheText(text: string): string {
+  return text.normalize('NFC').replace(/\s+/g, ' ').trim()
+}
+
+/**
+ * 内容寻址的缓存键：规范化文本、发音人、格式、采样率和韵律参数的 SHA-256，未设置的参数按默认值计算
+ */
+export function synthesisCacheKey(text: string, params: SynthesisCacheKeyParams): string {
+  const options = params.options ?? {}
+  const material = JSON.stringify([
+    ENTRY_VERSION,
+    params.provider ?? '',
+    params.speaker,
+    params.format,
+    params.sampleRate,
+    options.rate ?? 1,
+    options.pitch ?? 0,
+    options.volume ?? 1,
+    options.emotion ?? '',
+    options.emotion ? options.emotionScale ?? 4 : 0,
+    normalizeCacheText(text),
+  ])
+  return createHash('sha256').update(material).digest('hex')
+}
+
+/**
+ * 合成缓存：统计命中情况，按 TTL 判断过期；存储读写失败时按未命中处理，不影响合成
+ */
+export class SynthesisCache {
+  readonly store: SynthesisCacheStore
+  private readonly ttlMs: number
+  private readonly maxTextLength: number
+  private hits = 0
+  private misses = 0
+
+  constructor(options: SynthesisCacheOptions = {}, private readonly logger: Logger = silentLogger) {
+    this.store = createStore(options)
+    this.ttlMs = options.ttlMs ?? DEFAULT_TTL_MS
+    this.maxTextLength = options.maxTextLength ?? DEFAULT_MAX_TEXT_LENGTH
+  }
+
+  /**
+   * 计算缓存键，文本超过 maxTextLength 时返回 undefined（不缓存）
+   */
+  key(text: string, params: SynthesisCacheKeyParams): string | undefined {
+    if (text.length > this.maxTextLength) {
+      return undefined
+    }
+    return synthesisCacheKey(text, params)
+  }
+
+  async get(key: string): Promise<SynthesisCacheEntry | undefined> {
+    let entry: SynthesisCacheEntry | undefined
+    try {
+      entry = await this.store.get(key)
+      if (entry && entry.expiresAt !== undefined && entry.expiresAt <= Date.now()) {
+        await this.store.delete(key)
+        entry = undefined
+      }
+    } catch (error) {
+      this.logger.warn('读取合成缓存失败', { store: this.store.name, key, error })
+      entry = undefined
+    }
+
+    if (entry) {
+      this.hits++
+    } else {
+      this.misses++
+    }
+    return entry
+  }
+
+  async set(key: string, entry: Omit<SynthesisCacheEntry, 'createdAt' | 'expiresAt'>): Promise<void> {
+    const createdAt = Date.now()
+    try {
+      await this.store.set(
+        key,
+        { ...entry, createdAt, ...(this.ttlMs > 0 && { expiresAt: createdAt + this.ttlMs }) },
+        this.ttlMs > 0 ? this.ttlMs : undefined,
+      )
+    } catch (error) {
+      this.logger.warn('写入合成缓存失败', { store: this.store.name, key, error })
+    }
+  }
+
+  getStats(): SynthesisCacheStats {
+    return {
+      store: this.store.name,
+      hits: this.hits,
+      misses: this.misses,
+      ...this.store.getStats?.(),
+    }
+  }
+}
+
+function createStore(options: SynthesisCacheOptions): SynthesisCacheStore {
+  const store = options.store ?? 'memory'
+  if (store === 'memory') {
+    return new MemoryCacheStore({ maxEntries: options.maxEntries, maxBytes: options.maxBytes })
+  }
+  if (store === 'filesystem') {
+    if (!options.directory) {
+      throw new Error('cache.store 为 filesystem 时需要提供 cache.directory')
+    }
+    return new FileSystemCacheStore(options.directory, { maxBytes: options.maxBytes })
+  }
+  return store
+}
+
+export interface MemoryCacheStoreOptions {
+  /** 最大记录数，默认 1000 */
+  maxEntries?: number
+  /** 音频总字节数上限，默认 64MB */
+  maxBytes?: number
+}
+
+/**
+ * 进程内 LRU 存储，超出记录数或字节数时淘汰最久未使用的记录
+ */
+export class MemoryCacheStore implements SynthesisCacheStore {
+  readonly name = 'memory'
+  private readonly maxEntries: number
+  private readonly maxBytes: number
+  /** Map 按插入顺序迭代，读取时重新插入，第一项即最久未使用 */
+  private entries = new Map<string, SynthesisCacheEntry>()
+  private bytes = 0
+
+  constructor(options: MemoryCacheStoreOptions = {}) {
+    this.maxEntries = options.maxEntries ?? DEFAULT_MAX_ENTRIES
+    this.maxBytes = options.maxBytes ?? DEFAULT_MEMORY_MAX_BYTES
+  }
+
+  async get(key: string): Promise<SynthesisCacheEntry | undefined> {
+    const entry = this.entries.get(key)
+    if (entry) {
+      this.entries.delete(key)
+      this.entries.set(key, entry)
+    }
+    return entry
+  }
+
+  async set(key: string, entry: SynthesisCacheEntry): Promise<void> {
+    // 单条超过上限时不缓存，否则会把其他记录全部淘汰
+    if (entry.audio.length > this.maxBytes) {
+      return
+    }
+    await this.delete(key)
+    this.entries.set(key, entry)
+    this.bytes += entry.audio.length
+
+    for (const [oldestKey, oldest] of this.entries) {
+      if (this.entries.size <= this.maxEntries && this.bytes <= this.maxBytes) break
+      this.entries.delete(oldestKey)
+      this.bytes -= oldest.audio.length
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    const entry = this.entries.get(key)
+    if (entry) {
+      this.entries.delete(key)
+      this.bytes -= entry.audio.length
+    }
+  }
+
+  getStats(): { entries: number; bytes: number } {
+    return { entries: this.entries.size, bytes: this.bytes }
+  }
+}
+
+export interface FileSystemCacheStoreOptions {
+  /** 目录中缓存文件的总字节数上限，默认 1GB */
+  maxBytes?: number
+}
+
+/**
+ * 目录存储：每条记录一个文件，进程重启后仍然有效。
+ * 启动时扫描目录建立索引，超出 maxBytes 时按最后使用时间淘汰
+ */
+export class FileSystemCacheStore implements SynthesisCacheStore {
+  readonly name = 'filesystem'
+  private readonly maxBytes: number
+  /** 每个缓存文件的字节数；Map 按使用顺序排列，第一项即最久未使用 */
+  private index = new Map<string, number>()
+  private bytes = 0
+  private ready: Promise<void>
+
+  constructor(private readonly directory: string, options: FileSystemCacheStoreOptions = {}) {
+    this.maxBytes = options.maxBytes ?? DEFAULT_FILESYSTEM_MAX_BYTES
+    this.ready = this.load()
+    // 扫描失败时在首次读写时抛出
+    this.ready.catch(() => {})
+  }
+
+  async get(key: string): Promise<SynthesisCacheEntry | undefined> {
+    await this.ready
+    const file = this.filePath(key)
+    let data: Uint8Array
+    try {
+      data = await readFile(file)
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        this.forget(key)
+        return undefined
+      }
+      throw error
+    }
+
+    const size = this.index.get(key)
+    this.index.delete(key)
+    this.index.set(key, size ?? data.length)
+    if (size === undefined) {
+      this.bytes += data.length
+    }
+    // 修改时间即最后使用时间，重启后按它恢复淘汰顺序
+    const now = new Date()
+    utimes(file, now, now).catch(() => {})
+    return decodeCacheEntry(data)
+  }
+
+  async set(key: string, entry: SynthesisCacheEntry): Promise<void> {
+    await this.ready
+    const data = encodeCacheEntry(entry)
+    if (data.length > this.maxBytes) {
+      return
+    }
+
+    // 先写临时文件再重命名，读取方不会读到写了一半的文件
+    const file = this.filePath(key)
+    const temporary = `${file}.${process.pid}.${Date.now()}.tmp`
+    await writeFile(temporary, data)
+    await rename(temporary, file)
+
+    this.forget(key)
+    this.index.set(key, data.length)
+    this.bytes += data.length
+    await this.evict()
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.ready
+    await rm(this.filePath(key), { force: true })
+    this.forget(key)
+  }
+
+  getStats(): { entries: number; bytes: number } {
+    return { entries: this.index.size, bytes: this.bytes }
+  }
+
+  private async load(): Promise<void> {
+    await mkdir(this.directory, { recursive: true })
+    const files: Array<{ key: string; size: number; usedAt: number }> = []
+    for (const name of await readdir(this.directory)) {
+      const path = join(this.directory, name)
+      if (name.endsWith('.tmp')) {
+        // 上次写入中断留下的临时文件
+        await rm(path, { force: true })
+        continue
+      }
+      if (!name.endsWith('.bin')) continue
+      const info = await stat(path).catch(() => undefined)
+      if (info?.isFile()) {
+        files.push({ key: name.slice(0, -'.bin'.length), size: info.size, usedAt: info.mtimeMs })
+      }
+    }
+
+    files.sort((a, b) => a.usedAt - b.usedAt)
+    for (const file of files) {
+      this.index.set(file.key, file.size)
+      this.bytes += file.size
+    }
+    await this.evict()
+  }
+
+  private async evict(): Promise<void> {
+    for (const [key] of this.index) {
+      if (this.bytes <= this.maxBytes) break
+      this.forget(key)
+      await rm(this.filePath(key), { force: true })
+    }
+  }
+
+  private forget(key: string): void {
+    const size = this.index.get(key)
+    if (size !== undefined) {
+      this.index.delete(key)
+      this.bytes -= size
+    }
+  }
+
+  private filePath(key: string): string {
+    if (!/^[\w-]+$/.test(key)) {
+      throw new RangeError(`invalid cache key: ${key}`)
+    }
+    return join(this.directory, `${key}.bin`)
+  }
+}
+
+export interface KeyValueCacheStoreOptions {
+  /** 键前缀，默认 tts:cache: */
+  prefix?: string
+}
+
+/**
+ * 使用用户提供的键值存储（如 Redis），TTL 交给存储处理，大小限制由存储自身的淘汰策略负责
+ */
+export class KeyValueCacheStore implements SynthesisCacheStore {
+  readonly name = 'kv'
+  private readonly prefix: string
+
+  constructor(private readonly adapter: KeyValueAdapter, options: KeyValueCacheStoreOptions = {}) {
+    this.prefix = options.prefix ?? 'tts:cache:'
+  }
+
+  async get(key: string): Promise<SynthesisCacheEntry | undefined> {
+    const data = await this.adapter.get(this.prefix + key)
+    return data ? decodeCacheEntry(data) : undefined
+  }
+
+  async set(key: string, entry: SynthesisCacheEntry, ttlMs?: number): Promise<void> {
+    await this.adapter.set(this.prefix + key, encodeCacheEntry(entry), ttlMs)
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.adapter.delete(this.prefix + key)
+  }
+}
+
+/**
+ * 编码一条记录：头部长度（uint32 大端）+ JSON 头部（去掉 audio 的记录）+ 音频
+ */
+function encodeCacheEntry(entry: SynthesisCacheEntry): Uint8Array {
+  const { audio, ...fields } = entry
+  const header = new TextEncoder().encode(JSON.stringify({ version: ENTRY_VERSION, ...fields }))
+  const data = new Uint8Array(4 + header.length + audio.length)
+  new DataView(data.buffer).setUint32(0, header.length)
+  data.set(header, 4)
+  data.set(audio, 4 + header.length)
+  return data
+}
+
+function decodeCacheEntry(data: Uint8Array): SynthesisCacheEntry {
+  if (data.length < 4) {
+    throw new Error('cache entry too short')
+  }
+  const headerLength = new DataView(data.buffer, data.byteOffset, data.byteLength).getUint32(0)
+  if (4 + headerLength > data.length) {
+    throw new Error('cache entry truncated')
+  }
+  const { version, ...fields } = JSON.parse(new TextDecoder().decode(data.subarray(4, 4 + headerLength)))
+  if (version !== ENTRY_VERSION) {
+    throw new Error(`unsupported cache entry version: ${version}`)
+  }
+  return { ...fields, audio: data.slice(4 + headerLength) }
+}
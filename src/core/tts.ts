@@ -2,17 +2,25 @@ import WebSocket from 'ws'
 import * as uuid from 'uuid'
 import {
   MsgType,
-  ReceiveMessage,
   EventType,
+  CompressionBits,
   StartConnection,
   StartSession,
   TaskRequest,
   FinishSession,
+  CancelSession,
   FinishConnection,
-  WaitForEvent,
   type Message,
 } from './protocols'
-import type { VolcengineTTSConfig } from '../types'
+import { VolcengineChannel, type ReceiveOptions } from './channel'
+import { silentLogger } from './logger'
+import type { Logger, SynthesisOptions, TTSSessionEvent, TTSWord, VolcengineTTSConfig } from '../types'
+
+/** 默认单条消息等待超时(毫秒) */
+const DEFAULT_TIMEOUT_MS = 30000;
+
+/** 默认发音人 */
+export const DEFAULT_SPEAKER = 'zh_female_gaolengyujie_emo_v2_mars_bigtts';
 
 function VoiceToResourceId(voice: string): string {
   if (voice.startsWith('S_')) {
@@ -21,65 +29,169 @@ function VoiceToResourceId(voice: string): string {
   return 'volc.service_type.10029'
 }
 
+/** 是否为声音复刻发音人 */
+const isClonedVoice = (voice: string) => voice.startsWith('S_');
+
+/** 是否为声音复刻资源 */
+const isCloneResource = (resourceId: string) => /megatts|icl/i.test(resourceId);
+
+/**
+ * 确定发音人使用的资源 ID：优先使用配置中的 resourceId，否则根据发音人推断
+ * @param speaker 发音人
+ * @param resourceId 配置中指定的资源 ID
+ */
+export const resolveResourceId = (speaker: string, resourceId?: string): string => {
+  const resolved = resourceId || VoiceToResourceId(speaker);
+  assertSpeakerMatchesResource(speaker, resolved);
+  return resolved;
+};
+
+/**
+ * 校验发音人与资源 ID 是否匹配，复刻音色（S_ 开头）只能使用声音复刻资源，反之亦然
+ */
+export const assertSpeakerMatchesResource = (speaker: string, resourceId: string) => {
+  if (isClonedVoice(speaker) !== isCloneResource(resourceId)) {
+    throw new Error(
+      isClonedVoice(speaker)
+        ? `发音人 ${speaker} 是声音复刻音色，需要使用声音复刻资源（如 volc.megatts.default），当前资源 ID: ${resourceId}`
+        : `发音人 ${speaker} 不是声音复刻音色，不能使用声音复刻资源 ${resourceId}，请改用 volc.service_type.10029 等合成资源`,
+    );
+  }
+};
+
 /**
  * 初始化火山引擎 TTS WebSocket 连接
  * @param config 火山引擎 TTS 配置
+ * @param logger 日志输出，会随通道传给后续会话
+ * @returns 已完成握手的连接通道
  */
-export const initWebScoketInstance = async (config: VolcengineTTSConfig) => {
+export const initWebScoketInstance = async (config: VolcengineTTSConfig, logger: Logger = silentLogger) => {
   if (!config.appId || !config.accessKey || !config.wsUrl) {
     throw new Error('火山引擎 TTS 配置不完整，需要 appId、accessKey 和 wsUrl');
   }
 
+  // 发音人与资源 ID 是否匹配在启动会话时校验
+  const resourceId = config.resourceId || VoiceToResourceId(config.speaker || DEFAULT_SPEAKER);
   const headers = {
     'X-Api-App-Key': config.appId,
     'X-Api-Access-Key': config.accessKey,
-    'X-Api-Resource-Id': 'volc.service_type.10029',
+    'X-Api-Resource-Id': resourceId,
     'X-Api-Connect-Id': uuid.v4(),
   };
 
+  const timeoutMs = config.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+
   const ws = new WebSocket(config.wsUrl, {
     headers,
     // 跳过 WebSocket 数据的 UTF-8 校验，加快二进制数据（如音频流）传输速度，适用于只关心原始数据、不需要文本解析的场景
     skipUTF8Validation: true,
+    handshakeTimeout: timeoutMs || undefined,
   });
+  const channel = new VolcengineChannel(ws, { timeoutMs, logger, resourceId });
 
-  await new Promise((resolve, reject) => {
-    ws.on('open', resolve);
-    ws.on('error', reject);
-  });
+  try {
+    await new Promise((resolve, reject) => {
+      ws.once('open', resolve);
+      ws.once('error', reject);
+    });
 
-  // 发送连接握手自定义协议
-  await StartConnection(ws);
-  // 等待服务端握手确认
-  await WaitForEvent(
-    ws,
-    MsgType.FullServerResponse,
-    EventType.ConnectionStarted,
-  ).then((msg) => msg.toString());
+    // 发送连接握手自定义协议
+    await StartConnection(ws, logger);
+    // 等待服务端握手确认
+    await channel.waitFor(
+      MsgType.FullServerResponse,
+      EventType.ConnectionStarted,
+    );
+  } catch (error) {
+    logger.warn('火山引擎连接失败', { connectId: headers['X-Api-Connect-Id'], error });
+    channel.close();
+    throw error;
+  }
 
-  return ws;
+  logger.debug('火山引擎连接已建立', { connectId: headers['X-Api-Connect-Id'], resourceId });
+  return channel;
 };
 
+/**
+ * 校验合成参数，超出范围时抛出 RangeError
+ * @param options 合成参数
+ */
+export const validateSynthesisOptions = (options: SynthesisOptions = {}) => {
+  const checkRange = (name: string, value: number | undefined, min: number, max: number) => {
+    if (value === undefined) return;
+    if (typeof value !== 'number' || !Number.isFinite(value) || value < min || value > max) {
+      throw new RangeError(`${name} 必须在 ${min} 到 ${max} 之间，当前值: ${value}`);
+    }
+  };
+
+  if (options.voice !== undefined && (typeof options.voice !== 'string' || !options.voice.trim())) {
+    throw new RangeError('voice 必须是非空字符串');
+  }
+  checkRange('rate', options.rate, 0.5, 2);
+  checkRange('pitch', options.pitch, -12, 12);
+  checkRange('volume', options.volume, 0.5, 2);
+  checkRange('emotionScale', options.emotionScale, 1, 5);
+  if (options.emotion !== undefined && typeof options.emotion !== 'string') {
+    throw new RangeError('emotion 必须是字符串');
+  }
+};
+
+/**
+ * 将倍率转换为火山引擎的百分比偏移：0.5 → -50，1 → 0，2 → 100
+ */
+const toRatePercent = (multiplier: number) => Math.round((multiplier - 1) * 100);
+
+/**
+ * 会话事件流的读取选项
+ */
+export interface SessionEventOptions extends ReceiveOptions {
+  /**
+   * 事件流何时结束
+   * - ttsEnded: 收到 TTSEnded 即结束，适合一次只发送一段文本（默认）
+   * - sessionFinished: 收到 SessionFinished 才结束，适合多次 send 后调用 finishInput
+   */
+  until?: 'ttsEnded' | 'sessionFinished';
+}
+
 /**
  * 启动 TTS 会话
- * @param ws WebSocket 连接实例
+ * @param channel 火山引擎连接通道
  * @param config 可选的 TTS 配置
+ * @param options 本次会话的合成参数，覆盖配置中的默认值
  */
-export const startSession = async (ws: WebSocket, config?: Partial<VolcengineTTSConfig>) => {
+export const startSession = async (
+  channel: VolcengineChannel,
+  config?: Partial<VolcengineTTSConfig>,
+  options: SynthesisOptions = {},
+) => {
+  validateSynthesisOptions(options);
+
+  const speaker = options.voice || config?.speaker || DEFAULT_SPEAKER;
+  // 连接的资源 ID 在握手时确定，发音人必须与之匹配
+  if (channel.resourceId) {
+    assertSpeakerMatchesResource(speaker, channel.resourceId);
+  }
+
+  const { ws, logger } = channel;
   const sessionId = uuid.v4();
+  const compression = config?.compression === 'gzip' ? CompressionBits.Gzip : CompressionBits.None;
   const requestTemplate = {
     user: {
       uid: sessionId,
     },
     req_params: {
-      speaker: config?.speaker || 'zh_female_gaolengyujie_emo_v2_mars_bigtts',
+      speaker,
       audio_params: {
         format: config?.audioFormat || 'mp3',
         sample_rate: config?.sampleRate || 24000,
         enable_timestamp: true,
+        ...(options.rate !== undefined && { speech_rate: toRatePercent(options.rate) }),
+        ...(options.volume !== undefined && { loudness_rate: toRatePercent(options.volume) }),
+        ...(options.emotion && { emotion: options.emotion, emotion_scale: options.emotionScale ?? 4 }),
       },
       additions: JSON.stringify({
         disable_markdown_filter: true,
+        ...(options.pitch !== undefined && { post_process: { pitch: Math.round(options.pitch) } }),
       }),
     },
   }
@@ -93,38 +205,253 @@ export const startSession = async (ws: WebSocket, config?: Partial<VolcengineTTS
       }),
     ),
     sessionId,
+    compression,
+    logger,
+  );
+  await channel.waitFor(
+    MsgType.FullServerResponse,
+    EventType.SessionStarted,
   );
 
+  let finishSent = false;
+  let sessionFinished = false;
+  /** 已发送但还没收到 TTSEnded 的文本数 */
+  let pendingTexts = 0;
+  /** 唤醒空闲等待中的 events() 读取，改为按接收超时等待 */
+  let wakeIdleRead: (() => void) | undefined;
+
+  const send = async (text: string) => {
+    pendingTexts++;
+    wakeIdleRead?.();
+    await TaskRequest(
+      ws,
+      new TextEncoder().encode(
+        JSON.stringify({
+          ...requestTemplate,
+          req_params: {
+            ...requestTemplate.req_params,
+            text,
+          },
+          event: EventType.TaskRequest,
+        }),
+      ),
+      sessionId,
+      compression,
+      logger,
+    )
+  };
+
+  /** 通知服务端不会再有新的文本，已发送的文本会继续合成 */
+  const finishInput = async () => {
+    if (finishSent) return;
+    finishSent = true;
+    wakeIdleRead?.();
+    await FinishSession(ws, sessionId, logger);
+  };
+
+  const end = async () => {
+    await finishInput();
+    if (sessionFinished) return;
+    // 结束会话前服务端可能还有未读取的消息（如 UsageResponse），跳过即可
+    while ((await channel.receive()).event !== EventType.SessionFinished);
+    sessionFinished = true;
+  };
+
+  /**
+   * 取消会话：发送 CancelSession 并等待 SessionCanceled，期间收到的音频等消息直接丢弃。
+   * 调用前需要先停止其他读取（如通过 signal 中止 events()），否则会争抢消息
+   */
+  const cancel = async (options?: ReceiveOptions) => {
+    if (sessionFinished) return;
+    finishSent = true;
+    await CancelSession(ws, sessionId, logger);
+    while (true) {
+      const msg = await channel.receive(options);
+      if (msg.event === EventType.SessionCanceled) break;
+      if (msg.event === EventType.SessionFinished) {
+        // 会话已先于取消正常结束，取消的回复可能随后到达，连接不再复用
+        logger.debug('session finished before cancel', { sessionId });
+        channel.close();
+        break;
+      }
+    }
+    sessionFinished = true;
+  };
+
+  /**
+   * 读取下一条会话消息。没有等待合成的文本且未调用 finishInput 时服务端不会回复（如等待模型生成下一句），
+   * 此时不计接收超时，只响应 signal；发送新文本或 finishInput 后重新按超时等待
+   */
+  const receiveEvent = async (options: ReceiveOptions): Promise<Message> => {
+    while (pendingTexts === 0 && !finishSent && !options.signal?.aborted) {
+      const idle = new AbortController();
+      const forwardAbort = () => idle.abort(options.signal?.reason);
+      options.signal?.addEventListener('abort', forwardAbort, { once: true });
+      wakeIdleRead = () => idle.abort();
+      try {
+        return await channel.receive({ timeoutMs: 0, signal: idle.signal });
+      } catch (error) {
+        if (options.signal?.aborted || !idle.signal.aborted) throw error;
+      } finally {
+        wakeIdleRead = undefined;
+        options.signal?.removeEventListener('abort', forwardAbort);
+      }
+    }
+    return await channel.receive(options);
+  };
+
+  /**
+   * 逐条读取会话事件，默认收到 TTSEnded 后结束；until 为 sessionFinished 时
+   * 忽略每段文本的 TTSEnded，直到 finishInput 之后的 SessionFinished 才结束。
+   * 连接失败、超时或协议错误时抛出，接收超时只在有文本等待合成时计算
+   */
+  async function* events(options: SessionEventOptions = {}): AsyncGenerator<TTSSessionEvent> {
+    const untilSessionFinished = options.until === 'sessionFinished';
+    while (true) {
+      const msg = await receiveEvent(options);
+      if (msg.event === EventType.TTSEnded && pendingTexts > 0) {
+        pendingTexts--;
+      }
+      if (untilSessionFinished && msg.event === EventType.SessionFinished) {
+        sessionFinished = true;
+        yield { type: 'ended' };
+        return;
+      }
+      const event = decodeSessionEvent(msg);
+      if (!event) continue;
+      if (event.type === 'ended' && untilSessionFinished) continue;
+      yield event;
+      if (event.type === 'ended') return;
+    }
+  }
+
   return {
     sessionId,
-    send: async (text: string) => {
-      await TaskRequest(
-        ws,
-        new TextEncoder().encode(
-          JSON.stringify({
-            ...requestTemplate,
-            req_params: {
-              ...requestTemplate.req_params,
-              text,
-            },
-            event: EventType.TaskRequest,
-          }),
-        ),
-        sessionId,
-      )
+    send,
+    finishInput,
+    events,
+    /**
+     * 合成一段文本，返回该段文本的事件流
+     * @example
+     * for await (const ev of session.synthesize('你好')) { ... }
+     */
+    synthesize: async function* (text: string, options?: ReceiveOptions): AsyncGenerator<TTSSessionEvent> {
+      await send(text);
+      yield* events(options);
     },
-    receive: async () => {
-      return await ReceiveMessage(ws);
+    receive: async (options?: ReceiveOptions) => {
+      return await channel.receive(options);
     },
+    /** 结束会话但保留连接，之后可以在同一连接上启动新会话 */
+    end,
+    cancel,
+    /** 结束会话并关闭连接 */
     finished: async () => {
-      await FinishSession(ws, sessionId);
-      await FinishConnection(ws);
-      await WaitForEvent(
-        ws,
-        MsgType.FullServerResponse,
-        EventType.ConnectionFinished,
-      );
-      ws.close();
+      try {
+        await end();
+        await FinishConnection(ws, logger);
+        await channel.waitFor(
+          MsgType.FullServerResponse,
+          EventType.ConnectionFinished,
+        );
+      } finally {
+        channel.close();
+      }
+    },
+    /** 立即关闭连接，所有等待中的 receive 都会被拒绝 */
+    close: () => {
+      channel.close();
     },
   }
-};
\ No newline at end of file
+};
+
+export type TTSSession = Awaited<ReturnType<typeof startSession>>;
+
+/**
+ * 将火山引擎消息解码为会话事件，与合成无关的消息返回 undefined
+ */
+export const decodeSessionEvent = (msg: Message): TTSSessionEvent | undefined => {
+  switch (msg.event) {
+    case EventType.TTSSentenceStart: {
+      const payload = parsePayload(msg);
+      return {
+        type: 'sentenceStart',
+        text: payload.text ?? payload.sentence ?? '',
+        sentenceId: msg.sequence ?? payload.sentence_id,
+      };
+    }
+
+    case EventType.TTSResponse:
+      return msg.payload.length > 0 ? { type: 'audio', data: msg.payload } : undefined;
+
+    case EventType.TTSSentenceEnd: {
+      const payload = parsePayload(msg);
+      const words: TTSWord[] = Array.isArray(payload.words)
+        ? payload.words.filter(isWordTimestamp).map((word) => ({
+            word: typeof word.word === 'string' ? word.word : '',
+            startTime: firstNumber(word.startTime, word.start_time),
+            endTime: firstNumber(word.endTime, word.end_time),
+          }))
+        : [];
+      return {
+        type: 'sentenceEnd',
+        text: payload.text ?? payload.sentence ?? '',
+        words,
+        duration: payload.duration ?? payload.total_duration,
+      };
+    }
+
+    case EventType.UsageResponse: {
+      const payload = parsePayload(msg);
+      return { type: 'usage', usage: payload.usage ?? payload };
+    }
+
+    case EventType.TTSEnded:
+      return { type: 'ended' };
+
+    default:
+      return undefined;
+  }
+};
+
+/**
+ * 句子事件中的单词时间戳（秒），不同版本的字段名为驼峰或下划线
+ */
+interface WordTimestamp {
+  word?: unknown;
+  startTime?: unknown;
+  start_time?: unknown;
+  endTime?: unknown;
+  end_time?: unknown;
+}
+
+/**
+ * 句子和用量事件的 JSON 负载
+ */
+interface SessionEventPayload extends Record<string, unknown> {
+  text?: string;
+  sentence?: string;
+  sentence_id?: number;
+  words?: unknown;
+  duration?: number;
+  total_duration?: number;
+  usage?: Record<string, unknown>;
+}
+
+const isWordTimestamp = (value: unknown): value is WordTimestamp =>
+  typeof value === 'object' && value !== null;
+
+const firstNumber = (...values: unknown[]): number => {
+  const value = values.find((candidate) => typeof candidate === 'number');
+  return typeof value === 'number' ? value : 0;
+};
+
+const parsePayload = (msg: Message): SessionEventPayload => {
+  if (msg.payload.length === 0) return {};
+  try {
+    const parsed = JSON.parse(new TextDecoder().decode(msg.payload));
+    return parsed && typeof parsed === 'object' ? parsed : {};
+  } catch {
+    return {};
+  }
+};
@@ -0,0 +1,122 @@
+import { VolcenginePool } from './pool'
+import { silentLogger } from './logger'
+import {
+  DEFAULT_SPEAKER,
+  initWebScoketInstance,
+  resolveResourceId,
+  startSession,
+  validateSynthesisOptions,
+  type TTSSession,
+} from './tts'
+import type {
+  Logger,
+  TTSProvider,
+  TTSProviderSession,
+  TTSSessionRequest,
+  VolcengineTTSConfig,
+  VolcenginePoolOptions,
+} from '../types'
+
+/** 默认单条消息等待超时(毫秒)，与 tts.ts 一致 */
+const DEFAULT_TIMEOUT_MS = 30000
+
+/**
+ * 火山引擎双向流式 TTS，按资源 ID 维护连接池，连接池配置为 false 时每个会话新建连接
+ */
+export class VolcengineTTSProvider implements TTSProvider {
+  readonly name = 'volcengine'
+  /** 按资源 ID 区分的连接池，不同资源的连接不能混用 */
+  private pools = new Map<string, VolcenginePool>()
+
+  constructor(
+    private readonly config: VolcengineTTSConfig,
+    private readonly poolOptions: VolcenginePoolOptions | false = {},
+    private readonly logger: Logger = silentLogger,
+  ) {}
+
+  async startSession(request: TTSSessionRequest): Promise<TTSProviderSession> {
+    validateSynthesisOptions(request.options)
+    const speaker = request.options.voice || this.config.speaker || DEFAULT_SPEAKER
+    const resourceId = resolveResourceId(speaker, this.config.resourceId)
+    // 音频格式在 StartSession 时指定，同一连接上的会话可以使用不同格式
+    const sessionConfig = { ...this.config, audioFormat: request.audioFormat, sampleRate: request.sampleRate }
+
+    const pool = this.getPool(resourceId)
+    if (pool) {
+      return this.toProviderSession(await pool.startSession(sessionConfig, request.options))
+    }
+
+    const ttsConfig = { ...sessionConfig, resourceId }
+    const channel = await initWebScoketInstance(ttsConfig, this.logger)
+    const session = await startSession(channel, ttsConfig, request.options).catch((error) => {
+      channel.close()
+      throw error
+    })
+    return this.toProviderSession(session)
+  }
+
+  /**
+   * 预热默认发音人的连接池
+   */
+  async warmUp(): Promise<void> {
+    const speaker = this.config.speaker || DEFAULT_SPEAKER
+    await this.getPool(resolveResourceId(speaker, this.config.resourceId))?.warmUp()
+  }
+
+  /**
+   * 关闭所有连接，之后的会话会重新创建连接池
+   */
+  close(): void {
+    this.pools.forEach((pool) => pool.close())
+    this.pools.clear()
+  }
+
+  /**
+   * 汇总所有连接池的使用情况，未启用连接池时返回 undefined
+   */
+  getPoolStats(): { size: number; idle: number; leased: number; pending: number } | undefined {
+    if (this.poolOptions === false) {
+      return undefined
+    }
+
+    const total = { size: 0, idle: 0, leased: 0, pending: 0 }
+    this.pools.forEach((pool) => {
+      const stats = pool.getStats()
+      total.size += stats.size
+      total.idle += stats.idle
+      total.leased += stats.leased
+      total.pending += stats.pending
+    })
+    return total
+  }
+
+  private getPool(resourceId: string): VolcenginePool | undefined {
+    if (this.poolOptions === false) {
+      return undefined
+    }
+
+    let pool = this.pools.get(resourceId)
+    if (!pool) {
+      pool = new VolcenginePool({ ...this.config, resourceId }, this.poolOptions, this.logger)
+      this.pools.set(resourceId, pool)
+    }
+    return pool
+  }
+
+  /**
+   * 事件流读到 SessionFinished 为止，取消时使用配置的超时等待 SessionCanceled
+   */
+  private toProviderSession(session: TTSSession): TTSProviderSession {
+    return {
+      sessionId: session.sessionId,
+      send: session.send,
+      finishInput: session.finishInput,
+      events: (options = {}) => session.events({ ...options, until: 'sessionFinished' }),
+      // 不提前发送 FinishSession，取消时服务端回复 SessionCanceled，连接可以放回连接池
+      synthesize: session.synthesize,
+      cancel: () => session.cancel({ timeoutMs: this.config.timeoutMs ?? DEFAULT_TIMEOUT_MS }),
+      finished: session.finished,
+      close: session.close,
+    }
+  }
+}
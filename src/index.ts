@@ -4,11 +4,46 @@
  */
 
 // 服务端SDK
-export { TTSServerSDK, createTTSServer } from './server';
+export { TTSServerSDK, createTTSServer, VolcengineChannel, VolcengineProtocolError, MockVolcengineServer, SentenceSegmenter } from './server';
+export type { ReceiveOptions, ChannelOptions, MockVolcengineServerOptions, MockFault, SentenceSegmenterOptions } from './server';
+
+// 认证
+export { apiKeyAuth, jwtAuth, combineAuth, verifyJwt, extractCredential, HttpError } from './server';
+export type { CredentialOptions, JwtAuthOptions } from './server';
+
+// 限流
+export { RateLimiter, RateLimitError, TokenBucket } from './server';
+export type { RateLimitLease } from './server';
+
+// 并发调度
+export { SessionScheduler, SchedulerError } from './server';
+export type { SchedulerSlot, ScheduledJob, SchedulerErrorCode } from './server';
+
+// TTS服务
+export { VolcengineTTSProvider, SineWaveTTSProvider } from './server';
+export type { SineWaveTTSProviderOptions } from './server';
+
+// 大模型
+export { OpenAICompatibleProvider, AnthropicMessagesProvider, IterableProvider, ScriptedLLMProvider, LLMProviderError } from './server';
+export type { OpenAICompatibleProviderOptions, AnthropicMessagesProviderOptions, ScriptedLLMProviderOptions, ScriptedReply } from './server';
+
+// 合成缓存
+export { SynthesisCache, MemoryCacheStore, FileSystemCacheStore, KeyValueCacheStore, synthesisCacheKey, normalizeCacheText } from './server';
+export type { SynthesisCacheKeyParams, MemoryCacheStoreOptions, FileSystemCacheStoreOptions, KeyValueCacheStoreOptions } from './server';
+
+// 文本规范化
+export { createTextNormalizer, normalizeText, stripMarkdown, removeEmoji, verbalizeUrls, expandAbbreviations, readNumbers, detectLanguage, joinSentences } from './server';
+export type { NormalizationLanguage } from './server';
 
 // 客户端SDK
 export { TTSClientSDK, createTTSClient } from './client';
 
+// 日志
+export { silentLogger, createConsoleLogger } from './core/logger';
+
+// 音频二进制帧
+export { AUDIO_BINARY_PROTOCOL, encodeAudioFrame, decodeAudioFrame } from './core/audio-frame';
+
 // 从共享类型包导出所有类型
 export * from './types';
 
@@ -4,11 +4,13 @@
  */
 
 import { WebSocketServer } from 'ws';
-import { createServer } from 'http';
-import OpenAI from 'openai';
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'http';
+import type { Duplex } from 'stream';
+import { once } from 'events';
 import type {
   TTSConfig,
   ServerEventCallbacks,
+  EventCallbacks,
   ClientEvent,
   SentenceStartEvent,
   AudioChunkEvent,
@@ -20,27 +22,130 @@ import type {
   AudioTimestamp,
   ServerStatus,
   ClientInfo,
-  VolcengineTTSConfig
+  VolcengineTTSConfig,
+  Logger,
+  TTSSessionEvent,
+  TTSWord,
+  SynthesisOptions,
+  SynthesizeRequest,
+  SynthesizeResponse,
+  SpeechRequest,
+  AttachOptions,
+  Principal,
+  SessionJobInfo,
+  ChatMessage,
+  ServerSynthesisOptions,
+  SynthesisResult,
+  SynthesizedSentence,
+  ConverseOptions,
+  LLMMessage,
+  LLMProvider,
+  TTSProvider,
+  TTSProviderSession,
+  SynthesisCacheEntry
 } from './types';
 
 // 导入TTS相关模块
-import { initWebScoketInstance, startSession } from './core/tts';
-import { EventType, type Message } from './core/protocols';
+import {
+  validateSynthesisOptions,
+  DEFAULT_SPEAKER
+} from './core/tts';
+import { VolcengineTTSProvider } from './core/volcengine-provider';
+import { SentenceSegmenter } from './core/segmenter';
+import { ConversationHistory } from './core/history';
+import { RateLimiter, RateLimitError, type RateLimitLease } from './core/rate-limit';
+import { SessionScheduler, SchedulerError, type SchedulerSlot } from './core/scheduler';
+import {
+  AUDIO_BINARY_PROTOCOL,
+  encodeAudioFrame,
+  hasAudioData,
+  resolveAudioTransport,
+  serializeJsonEvent
+} from './core/audio-frame';
+import {
+  HttpError,
+  readJsonBody,
+  sendJson,
+  sendJsonError,
+  audioContentType,
+  isOriginAllowed,
+  setCorsHeaders,
+  rejectUpgrade
+} from './core/http';
+import { silentLogger } from './core/logger';
+import { VolcengineProtocolError } from './core/errors';
+import { AsyncEventQueue } from './core/event-queue';
+import { OpenAICompatibleProvider, LLMProviderError } from './core/llm';
+import { SynthesisCache } from './core/synthesis-cache';
+import { createTextNormalizer, joinSentences } from './core/normalizer';
+
+/** OpenAI 内置音色，未在 tts.voices 中映射时使用默认发音人 */
+const OPENAI_VOICES = ['alloy', 'ash', 'ballad', 'coral', 'echo', 'fable', 'onyx', 'nova', 'sage', 'shimmer', 'verse'];
+
+/**
+ * 一次AI对话的输入和回调
+ */
+interface ConversationRun {
+  conversationId: string;
+  /** 发送给模型的完整消息，包括系统提示词和之前的对话 */
+  messages: LLMMessage[];
+  callbacks: ServerEventCallbacks;
+  signal: AbortSignal;
+  /** 调度信息 */
+  job: SessionJobInfo;
+  options?: SynthesisOptions;
+  /** 每句文本送入TTS后调用 */
+  onSentenceSent?: (sentence: string) => void;
+  /** AI回复完整后、发出 chat_complete 之前调用 */
+  onResponseComplete?: (fullText: string) => void;
+}
+
+/**
+ * 合成一段文本，会话未实现 synthesize 时发送后立即结束输入，读取全部事件
+ */
+async function* synthesizeOnce(session: TTSProviderSession, text: string, signal?: AbortSignal): AsyncGenerator<TTSSessionEvent> {
+  if (session.synthesize) {
+    yield* session.synthesize(text, { signal });
+    return;
+  }
+  await session.send(text);
+  await session.finishInput();
+  yield* session.events({ signal });
+}
+
+/**
+ * 合并音频分片
+ */
+function concatAudio(chunks: Uint8Array[]): Uint8Array {
+  const totalLength = chunks.reduce((sum, chunk) => sum + chunk.length, 0);
+  const merged = new Uint8Array(totalLength);
+  let offset = 0;
+  for (const chunk of chunks) {
+    merged.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return merged;
+}
 
 /**
  * 流式音频-文本处理器（服务端版本）
  */
 class ServerStreamingAudioTextProcessor {
   private callbacks: ServerEventCallbacks;
+  /** 所属对话或合成请求，写入每个发出的事件 */
+  private readonly correlation: { conversationId?: string; requestId?: string };
   private currentSentenceId?: number;
   private currentSentence = "";
   private audioChunkCount = 0;
   private sentenceStartTime = 0;
   public fullText = ""; // 改为public以便外部访问
+  /** 规范化后实际朗读的文本，未启用规范化时为空 */
+  public spokenText?: string;
   private totalSentences = 0;
 
-  constructor(callbacks: ServerEventCallbacks) {
+  constructor(callbacks: ServerEventCallbacks, correlation: { conversationId?: string; requestId?: string }) {
     this.callbacks = callbacks;
+    this.correlation = correlation;
   }
 
   /**
@@ -51,6 +156,7 @@ class ServerStreamingAudioTextProcessor {
     
     const event: TextChunkEvent = {
       type: 'text_chunk',
+      ...this.correlation,
       data: { content },
       timestamp: Date.now()
     };
@@ -59,43 +165,68 @@ class ServerStreamingAudioTextProcessor {
   }
 
   /**
-   * 处理TTS句子开始事件
+   * 读取TTS会话的事件流直到结束，逐个分发
    */
-  handleSentenceStart(msg: Message): void {
-    if (msg.event === EventType.TTSSentenceStart) {
-      this.currentSentenceId = this.extractSentenceId(msg);
-      this.currentSentence = this.extractSentenceText(msg);
+  async consume(events: AsyncIterable<TTSSessionEvent>): Promise<void> {
+    for await (const event of events) {
+      this.handleSessionEvent(event);
+    }
+  }
 
-      this.audioChunkCount = 0;
-      this.sentenceStartTime = Date.now();
-      this.totalSentences++;
-      
-      if (this.currentSentenceId) {
-        const event: SentenceStartEvent = {
-          type: 'sentence_start',
-          data: {
-            sentenceId: this.currentSentenceId,
-            sentence: this.currentSentence
-          },
-          timestamp: this.sentenceStartTime
-        };
-        
-        this.callbacks.onSentenceStart?.(event);
-      }
+  /**
+   * 分发TTS会话事件
+   */
+  handleSessionEvent(event: TTSSessionEvent): void {
+    switch (event.type) {
+      case 'sentenceStart':
+        this.handleSentenceStart(event);
+        break;
+      case 'audio':
+        this.handleAudioResponse(event);
+        break;
+      case 'sentenceEnd':
+        this.handleSentenceEnd(event);
+        break;
     }
   }
 
+  /**
+   * 处理TTS句子开始事件
+   */
+  handleSentenceStart(ev: Extract<TTSSessionEvent, { type: 'sentenceStart' }>): void {
+    // 逐句发送时服务端的句子序号每个 TaskRequest 都会重新开始，按到达顺序编号以保持唯一且有序
+    this.currentSentenceId = this.totalSentences;
+    this.currentSentence = ev.text;
+
+    this.audioChunkCount = 0;
+    this.sentenceStartTime = Date.now();
+    this.totalSentences++;
+
+    const event: SentenceStartEvent = {
+      type: 'sentence_start',
+      ...this.correlation,
+      data: {
+        sentenceId: this.currentSentenceId,
+        sentence: this.currentSentence
+      },
+      timestamp: this.sentenceStartTime
+    };
+
+    this.callbacks.onSentenceStart?.(event);
+  }
+
   /**
    * 处理TTS音频响应事件
    */
-  handleAudioResponse(msg: Message): void {
-    if (msg.event === EventType.TTSResponse && this.currentSentenceId && msg.payload?.length > 0) {
+  handleAudioResponse(ev: Extract<TTSSessionEvent, { type: 'audio' }>): void {
+    if (this.currentSentenceId !== undefined) {
       const event: AudioChunkEvent = {
         type: 'audio_chunk',
+      ...this.correlation,
         data: {
           sentenceId: this.currentSentenceId,
           chunkIndex: this.audioChunkCount,
-          audioData: msg.payload,
+          audioData: ev.data,
           isLast: false
         },
         timestamp: Date.now()
@@ -109,15 +240,16 @@ class ServerStreamingAudioTextProcessor {
   /**
    * 处理TTS句子结束事件
    */
-  handleSentenceEnd(msg: Message): void {
-    if (msg.event === EventType.TTSSentenceEnd && this.currentSentenceId) {
+  handleSentenceEnd(ev: Extract<TTSSessionEvent, { type: 'sentenceEnd' }>): void {
+    if (this.currentSentenceId !== undefined) {
       const endTime = Date.now();
       const duration = endTime - this.sentenceStartTime;
       
-      const timestampInfo = this.extractTimestampInfo(msg);
+      const timestampInfo = this.extractTimestampInfo(ev);
       
       const event: SentenceCompleteEvent = {
         type: 'sentence_complete',
+      ...this.correlation,
         data: {
           sentenceId: this.currentSentenceId,
           sentence: this.currentSentence,
@@ -145,9 +277,11 @@ class ServerStreamingAudioTextProcessor {
   handleChatComplete(): void {
     const event: ChatCompleteEvent = {
       type: 'chat_complete',
+      ...this.correlation,
       data: {
         fullText: this.fullText,
-        totalSentences: this.totalSentences
+        totalSentences: this.totalSentences,
+        ...(this.spokenText !== undefined && { spokenText: this.spokenText })
       },
       timestamp: Date.now()
     };
@@ -164,93 +298,25 @@ class ServerStreamingAudioTextProcessor {
     this.audioChunkCount = 0;
     this.sentenceStartTime = 0;
     this.fullText = "";
+    this.spokenText = undefined;
     this.totalSentences = 0;
   }
 
   // 私有方法 - 复用kimi.ts中的逻辑
-  private extractSentenceId(msg: Message): number | undefined {
-    try {
-      if (msg.sequence !== undefined) {
-        return msg.sequence;
-      }
-      
-      if (msg.payload?.length > 0) {
-        const decoder = new TextDecoder();
-        const text = decoder.decode(msg.payload);
-        const parsed = JSON.parse(text);
-        if (parsed.sentence_id !== undefined) {
-          return parsed.sentence_id;
-        }
-      }
-      
-      return Date.now() + Math.random();
-    } catch (error) {
-      return Date.now() + Math.random();
-    }
-  }
+  private extractTimestampInfo(ev: Extract<TTSSessionEvent, { type: 'sentenceEnd' }>): { timestamps: AudioTimestamp[], totalDuration: number } {
+    const text = ev.text || this.currentSentence;
 
-  private extractSentenceText(msg: Message): string {
-    try {
-      if (msg.payload?.length > 0) {
-        const decoder = new TextDecoder();
-        const text = decoder.decode(msg.payload);
-        
-        try {
-          const parsed = JSON.parse(text);
-          return parsed.sentence || parsed.text || parsed.content || "未知句子";
-        } catch {
-          return text || "未知句子";
-        }
-      }
-      
-      return "空句子";
-    } catch (error) {
-      return "解析失败";
+    if (ev.words.length > 0) {
+      const timestamps: AudioTimestamp[] = this.convertWordsToCharTimestamps(ev.words, text);
+      const totalDuration = timestamps.length > 0 ? Math.max(...timestamps.map(t => t.endTime)) : 0;
+      return { timestamps, totalDuration };
     }
-  }
 
-  private extractTimestampInfo(msg: Message): { timestamps: AudioTimestamp[], totalDuration: number } {
-    try {
-      if (msg.payload?.length > 0) {
-        const decoder = new TextDecoder();
-        const text = decoder.decode(msg.payload);
-        const parsed = JSON.parse(text);
-        
-        if (parsed.words && Array.isArray(parsed.words)) {
-          const text = parsed.text || this.currentSentence;
-          const timestamps: AudioTimestamp[] = this.convertWordsToCharTimestamps(parsed.words, text);
-          const totalDuration = timestamps.length > 0 ? Math.max(...timestamps.map(t => t.endTime)) : 0;
-          return { timestamps, totalDuration };
-        }
-        
-        if (parsed.timestamps && Array.isArray(parsed.timestamps)) {
-          const timestamps: AudioTimestamp[] = parsed.timestamps.map((ts: any) => ({
-            char: ts.char || ts.character || '',
-            startTime: ts.start_time || ts.startTime || 0,
-            endTime: ts.end_time || ts.endTime || 0
-          }));
-          
-          const totalDuration = parsed.total_duration || parsed.totalDuration || 
-                               (timestamps.length > 0 ? Math.max(...timestamps.map(t => t.endTime)) : 0);
-          
-          return { timestamps, totalDuration };
-        }
-        
-        if (parsed.sentence || parsed.text) {
-          const sentence = parsed.sentence || parsed.text;
-          const totalDuration = parsed.duration || parsed.total_duration || 2000;
-          return this.generateEstimatedTimestamps(sentence, totalDuration);
-        }
-      }
-      
-      return this.generateEstimatedTimestamps(this.currentSentence, 2000);
-      
-    } catch (error) {
-      return this.generateEstimatedTimestamps(this.currentSentence, 2000);
-    }
+    // 服务端未返回逐词时间戳时按字符平均估算
+    return this.generateEstimatedTimestamps(text, ev.duration || 2000);
   }
 
-  private convertWordsToCharTimestamps(words: any[], text: string): AudioTimestamp[] {
+  private convertWordsToCharTimestamps(words: TTSWord[], text: string): AudioTimestamp[] {
     const timestamps: AudioTimestamp[] = [];
     const cleanText = text.replace(/^\s*\n*/, '').replace(/\s+/g, ' ').trim();
     let textIndex = 0;
@@ -369,16 +435,39 @@ export class TTSServerSDK {
   private config: TTSConfig;
   private ttsConfig: VolcengineTTSConfig;
   private wss?: WebSocketServer;
-  private server?: any;
+  /** start() 创建的HTTP服务器 */
+  private server?: Server;
+  /** attach() 挂载的外部HTTP服务器，stop() 时只移除监听、不关闭 */
+  private attachedServer?: Server;
+  /** WebSocket 路径 */
+  private path = '/tts';
+  /** REST 接口路由，均为 POST */
+  private readonly httpRoutes: Record<string, (req: IncomingMessage, res: ServerResponse, principal?: Principal) => Promise<void>> = {
+    '/v1/synthesize': (req, res, principal) => this.handleSynthesizeRequest(req, res, principal),
+    '/v1/audio/speech': (req, res, principal) => this.handleSpeechRequest(req, res, principal)
+  };
   private clients = new Map<string, any>();
-  private kimiClient?: OpenAI;
+  private llm?: LLMProvider;
+  /** TTS服务，provider 为 custom 但未提供实现时为空 */
+  private ttsProvider?: TTSProvider;
+  private logger: Logger;
   private isRunning = false;
+  private callbacks: Pick<ServerEventCallbacks, 'onClientConnected' | 'onClientDisconnected'> = {};
+  private rateLimiter: RateLimiter;
+  /** 全局TTS会话调度，所有会话共享 */
+  private scheduler: SessionScheduler;
+  /** 合成缓存，未配置 tts.cache 时为空 */
+  private cache?: SynthesisCache;
+  /** AI 回复送入TTS前的文本规范化，未配置 tts.normalization 时为空 */
+  private normalizeText?: (text: string) => string;
 
   constructor(config: TTSConfig = {}) {
+    this.logger = config.logger ?? silentLogger;
     this.config = {
       server: {
         port: 8080,
         host: '0.0.0.0',
+        path: '/tts',
         corsOrigin: '*',
         ...config.server
       },
@@ -401,8 +490,21 @@ export class TTSServerSDK {
       speaker: config.tts?.speaker,
       audioFormat: config.tts?.audioFormat,
       sampleRate: config.tts?.sampleRate,
+      compression: config.tts?.compression,
+      timeoutMs: config.tts?.timeoutMs,
+      resourceId: config.tts?.resourceId,
     };
 
+    this.ttsProvider = this.createTTSProvider();
+    this.rateLimiter = new RateLimiter(this.config.server?.rateLimit);
+    this.scheduler = new SessionScheduler(this.config.tts?.scheduler);
+    if (this.config.tts?.cache) {
+      this.cache = new SynthesisCache(this.config.tts.cache, this.logger);
+    }
+    if (this.config.tts?.normalization) {
+      this.normalizeText = createTextNormalizer(this.config.tts.normalization);
+    }
+
     // 如果没有配置 systemPrompt，则设置一个默认值
     if (!this.config.ai!.systemPrompt) {
       this.config.ai!.systemPrompt = '你是 Kimi，由 Moonshot AI 提供的人工智能助手，你更擅长中文和英文的对话。你会为用户提供安全，有帮助，准确的回答。同时，你会拒绝一切涉及恐怖主义，种族歧视，黄色暴力等问题的回答。Moonshot AI 为专有名词，不可翻译成其他语言。';
@@ -412,68 +514,377 @@ export class TTSServerSDK {
   }
 
   /**
-   * 初始化AI客户端
+   * 创建TTS服务：provider 为 custom 时使用 tts.custom，否则使用火山引擎
+   */
+  private createTTSProvider(): TTSProvider | undefined {
+    const provider = this.config.tts?.provider ?? (this.config.tts?.custom ? 'custom' : 'volcengine');
+    if (provider === 'custom') {
+      return this.config.tts?.custom;
+    }
+    return new VolcengineTTSProvider(this.ttsConfig, this.config.tts?.pool, this.logger);
+  }
+
+  /**
+   * 使用已获得的调度名额打开TTS会话，会话结束（finished 或 close）或打开失败时释放名额
+   */
+  private async openTTSSession(
+    slot: SchedulerSlot,
+    options: SynthesisOptions = {},
+    audio?: Pick<VolcengineTTSConfig, 'audioFormat' | 'sampleRate'>
+  ): Promise<TTSProviderSession> {
+    let session: TTSProviderSession;
+    try {
+      if (!this.ttsProvider) {
+        throw new Error('tts.provider 为 custom 时需要提供 tts.custom');
+      }
+      validateSynthesisOptions(options);
+      session = await this.ttsProvider.startSession({
+        options,
+        audioFormat: audio?.audioFormat ?? this.ttsConfig.audioFormat ?? 'mp3',
+        sampleRate: audio?.sampleRate ?? this.ttsConfig.sampleRate ?? 24000
+      });
+    } catch (error) {
+      slot.release();
+      throw error;
+    }
+
+    // 自定义实现可能是类，方法在原型上，不能用展开复制
+    return {
+      sessionId: session.sessionId,
+      send: (text) => session.send(text),
+      finishInput: () => session.finishInput(),
+      events: (options) => session.events(options),
+      ...(session.synthesize && { synthesize: (text: string, options?: { signal?: AbortSignal }) => session.synthesize!(text, options) }),
+      cancel: () => session.cancel(),
+      finished: async () => {
+        try {
+          await session.finished();
+        } finally {
+          slot.release();
+        }
+      },
+      close: () => {
+        session.close();
+        slot.release();
+      }
+    };
+  }
+
+  /**
+   * 等待全局TTS会话名额，排队期间通过 onQueued / onQueuePosition 通知排队位置
+   */
+  private async acquireSessionSlot(
+    job: SessionJobInfo,
+    signal?: AbortSignal,
+    callbacks: Pick<EventCallbacks, 'onQueued' | 'onQueuePosition'> = {},
+    correlation?: { conversationId?: string; requestId?: string }
+  ): Promise<SchedulerSlot> {
+    const notifyPosition = (position: number, queueSize: number) => {
+      callbacks.onQueuePosition?.({ type: 'queue_position', ...correlation, data: { position, queueSize }, timestamp: Date.now() });
+    };
+
+    let queued = false;
+    const slot = await this.scheduler.acquire({
+      priority: this.config.tts?.scheduler?.priority?.(job),
+      signal,
+      onQueued: (position, queueSize) => {
+        queued = true;
+        this.logger.info('TTS会话排队', { kind: job.kind, clientId: job.clientId, ...correlation, position, queueSize });
+        callbacks.onQueued?.({ type: 'queued', ...correlation, data: { position, queueSize }, timestamp: Date.now() });
+      },
+      onPositionChange: notifyPosition
+    });
+
+    if (queued) {
+      notifyPosition(0, this.scheduler.getStats().queued);
+    }
+    return slot;
+  }
+
+  /**
+   * 初始化AI模型，未指定 provider 时使用 OpenAI 兼容接口
    */
   private initializeAI(): void {
+    if (this.config.ai?.provider) {
+      this.llm = this.config.ai.provider;
+      return;
+    }
+
     if (!this.config.ai?.apiKey || !this.config.ai?.baseURL) {
-      console.warn('⚠️ AI配置不完整，请设置API Key和Base URL');
+      this.logger.warn('AI配置不完整，请设置API Key和Base URL，或提供 ai.provider');
       return;
     }
 
-    this.kimiClient = new OpenAI({
+    this.llm = new OpenAICompatibleProvider({
       apiKey: this.config.ai.apiKey,
       baseURL: this.config.ai.baseURL,
+      model: this.config.ai.model!,
     });
   }
 
   /**
-   * 启动服务器
+   * 启动服务器：创建HTTP服务器并监听 server.port，同时提供 WebSocket 和 REST 接口
    */
   async start(): Promise<void> {
     if (this.isRunning) {
       throw new Error('服务器已在运行中');
     }
 
-    // 验证 TTS 配置
-    if (!this.ttsConfig.appId || !this.ttsConfig.accessKey || !this.ttsConfig.wsUrl) {
-      throw new Error('TTS 配置不完整，需要提供 tts.appId、tts.accessKey 和 tts.wsUrl');
-    }
-
     try {
-      // 创建HTTP服务器
-      this.server = createServer();
-      
-      // 创建WebSocket服务器
-      this.wss = new WebSocketServer({ 
-        server: this.server,
-        path: '/tts'
-      });
+      this.initialize(this.config.server!.path);
 
-      // 处理WebSocket连接
-      this.wss.on('connection', (ws, req) => {
-        this.handleConnection(ws, req);
+      // 创建HTTP服务器
+      this.server = createServer(this.handleRequest);
+      this.server.on('upgrade', (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+        // 服务器归本 SDK 所有，其他路径的升级请求直接拒绝
+        if (!this.routeUpgrade(req, socket, head)) {
+          rejectUpgrade(socket, new HttpError(404, `not found: ${req.url}`));
+        }
       });
 
       // 启动HTTP服务器
       await new Promise<void>((resolve, reject) => {
-        this.server!.listen(this.config.server!.port, this.config.server!.host, (err: any) => {
-          if (err) {
-            reject(err);
-          } else {
-            resolve();
-          }
+        this.server!.once('error', reject);
+        this.server!.listen(this.config.server!.port, this.config.server!.host, () => {
+          this.server!.off('error', reject);
+          resolve();
         });
       });
 
       this.isRunning = true;
-      console.log(`🚀 TTS服务器已启动: ws://${this.config.server!.host}:${this.config.server!.port}/tts`);
+      this.warmUpTTS();
+
+      this.logger.info('TTS服务器已启动', { url: `ws://${this.config.server!.host}:${this.config.server!.port}${this.path}` });
 
     } catch (error) {
-      console.error('❌ 服务器启动失败:', error);
+      this.wss?.close();
+      this.wss = undefined;
+      this.server = undefined;
+      this.logger.error('服务器启动失败', { error });
       throw error;
     }
   }
 
+  /**
+   * 挂载到已有的HTTP服务器（Express、Fastify、Koa 等底层的 http.Server），只接管指定路径的 WebSocket 升级请求。
+   * REST 接口需要另外通过 handleRequest 挂载到框架路由
+   */
+  attach(httpServer: Server, options: AttachOptions = {}): void {
+    if (this.isRunning) {
+      throw new Error('服务器已在运行中');
+    }
+
+    this.initialize(options.path ?? this.config.server!.path);
+    this.attachedServer = httpServer;
+    // 其他路径留给服务器上的其他升级监听处理
+    httpServer.on('upgrade', this.routeUpgrade);
+    this.isRunning = true;
+    this.warmUpTTS();
+
+    this.logger.info('TTS服务器已挂载', { path: this.path });
+  }
+
+  /**
+   * 手动处理一个 WebSocket 升级请求，用于自行路由升级事件的场景。
+   * 需要先调用 start() 或 attach()；不检查路径，来源不被允许时返回 403
+   */
+  handleUpgrade(req: IncomingMessage, socket: Duplex, head: Buffer): void {
+    if (!this.wss) {
+      throw new Error('服务器未启动，请先调用 start() 或 attach()');
+    }
+
+    // 认证期间连接可能被对端重置，没有监听时 error 事件会导致进程退出
+    const onSocketError = () => socket.destroy();
+    socket.on('error', onSocketError);
+
+    Promise.resolve()
+      .then(() => {
+        this.checkOrigin(req);
+        return this.authenticateRequest(req);
+      })
+      .then((principal) => {
+        socket.off('error', onSocketError);
+        if (!this.wss) {
+          socket.destroy();
+          return;
+        }
+        this.wss.handleUpgrade(req, socket, head, (ws) => {
+          this.handleConnection(ws, req, principal);
+        });
+      })
+      .catch((error) => {
+        socket.off('error', onSocketError);
+        const httpError = this.toHttpError(error);
+        this.logger.warn('拒绝WebSocket连接', { ip: req.socket.remoteAddress, status: httpError.status, reason: httpError.message });
+        rejectUpgrade(socket, httpError, httpError.status === 401 ? { 'WWW-Authenticate': 'Bearer' } : {});
+      });
+  }
+
+  /**
+   * 设置服务端回调
+   */
+  setCallbacks(callbacks: Pick<ServerEventCallbacks, 'onClientConnected' | 'onClientDisconnected'>): void {
+    this.callbacks = { ...this.callbacks, ...callbacks };
+  }
+
+  /**
+   * 处理 REST 接口的HTTP请求，可直接作为 http.createServer 的回调或 Express/Connect 中间件使用。
+   * 路径不属于本 SDK 时调用 next()，没有 next 时返回 404
+   */
+  handleRequest = (req: IncomingMessage, res: ServerResponse, next?: (error?: unknown) => void): void => {
+    this.handleHttpRequest(req, res, next).catch((error) => {
+      this.logger.error('HTTP请求处理失败', { error });
+    });
+  };
+
+  /**
+   * 在服务端直接合成一段文本，不需要 WebSocket 客户端，也不需要先调用 start()。
+   * 与客户端请求共享会话调度，但不计入限流
+   * @returns 合并后的音频和逐句时间戳
+   */
+  async synthesize(text: string, options: ServerSynthesisOptions = {}): Promise<SynthesisResult> {
+    if (typeof text !== 'string' || !text.trim()) {
+      throw new RangeError('text 不能为空');
+    }
+    return this.runSynthesis(text, options, { kind: 'api' }, this.generateRequestId());
+  }
+
+  /**
+   * 流式合成一段文本，依次产出 queued、queue_position、sentence_start、audio_chunk、sentence_complete 事件（带 requestId）。
+   * 提前结束迭代会取消合成，合成失败时迭代抛出错误
+   */
+  async *synthesizeStream(text: string, options: ServerSynthesisOptions = {}): AsyncGenerator<ClientEvent> {
+    if (typeof text !== 'string' || !text.trim()) {
+      throw new RangeError('text 不能为空');
+    }
+
+    yield* this.streamEvents(options.signal, (callbacks, signal) =>
+      this.runSynthesis(text, { ...options, signal }, { kind: 'api' }, this.generateRequestId(), callbacks)
+    );
+  }
+
+  /**
+   * 在服务端直接进行一轮AI对话，产出与客户端相同的事件：conversation_started、text_chunk、
+   * sentence_start、audio_chunk、sentence_complete、chat_complete（带 conversationId）。
+   * 对话历史由调用方通过 messages 传入，不会被记录；提前结束迭代会取消对话，失败时迭代抛出错误
+   * @param messages 之前的对话和本轮的用户消息，最后一条应为 user
+   */
+  async *converse(messages: ChatMessage[], options: ConverseOptions = {}): AsyncGenerator<ClientEvent> {
+    if (!this.llm) {
+      throw new Error('AI服务未配置');
+    }
+    if (!Array.isArray(messages) || messages.length === 0) {
+      throw new RangeError('messages 不能为空');
+    }
+    const { systemPrompt, conversationId: requestedId, signal, ...synthesisOptions } = options;
+    validateSynthesisOptions(synthesisOptions);
+
+    const conversationId = requestedId || this.generateConversationId();
+    const userMessage = [...messages].reverse().find((message) => message.role === 'user')?.content ?? '';
+
+    yield {
+      type: 'conversation_started',
+      conversationId,
+      data: {
+        message: '开始处理对话',
+        userMessage
+      },
+      timestamp: Date.now()
+    };
+
+    yield* this.streamEvents(signal, (callbacks, runSignal) =>
+      this.processConversation({
+        conversationId,
+        messages: [
+          { role: 'system', content: systemPrompt ?? this.config.ai!.systemPrompt! },
+          ...messages.map(({ role, content }) => ({ role, content }))
+        ],
+        callbacks,
+        signal: runSignal,
+        job: { kind: 'api' },
+        options: synthesisOptions
+      })
+    );
+  }
+
+  /**
+   * 校验配置并创建 WebSocket 服务器（不绑定端口，由升级事件驱动）
+   */
+  private initialize(path = '/tts'): void {
+    // 验证 TTS 配置，自定义实现不需要火山引擎凭证
+    if (!this.ttsProvider) {
+      throw new Error('tts.provider 为 custom 时需要提供 tts.custom');
+    }
+    if (this.ttsProvider instanceof VolcengineTTSProvider
+      && (!this.ttsConfig.appId || !this.ttsConfig.accessKey || !this.ttsConfig.wsUrl)) {
+      throw new Error('TTS 配置不完整，需要提供 tts.appId、tts.accessKey 和 tts.wsUrl');
+    }
+
+    this.path = path;
+    this.wss = new WebSocketServer({
+      noServer: true,
+      // 只确认二进制音频子协议，未请求的旧客户端继续使用 JSON
+      handleProtocols: (protocols) => protocols.has(AUDIO_BINARY_PROTOCOL) ? AUDIO_BINARY_PROTOCOL : false
+    });
+
+  }
+
+  /**
+   * 校验请求来源
+   */
+  private checkOrigin(req: IncomingMessage): void {
+    const origin = req.headers.origin;
+    if (!isOriginAllowed(origin, this.config.server!.corsOrigin)) {
+      throw new HttpError(403, `origin not allowed: ${origin}`, { code: 'origin_not_allowed' });
+    }
+  }
+
+  /**
+   * 认证请求，返回调用方身份；未配置认证时返回 undefined
+   */
+  private async authenticateRequest(req: IncomingMessage): Promise<Principal | undefined> {
+    const authenticate = this.config.server!.authenticate;
+    if (!authenticate) {
+      return undefined;
+    }
+
+    let principal: Principal | null | undefined;
+    try {
+      principal = await authenticate(req);
+    } catch (error) {
+      if (error instanceof HttpError) {
+        throw error;
+      }
+      throw new HttpError(401, (error as Error)?.message || 'unauthorized', { code: 'unauthorized' });
+    }
+    if (!principal) {
+      throw new HttpError(401, 'unauthorized', { code: 'unauthorized' });
+    }
+    return principal;
+  }
+
+  /**
+   * 路径匹配时处理升级请求
+   * @returns 是否已处理
+   */
+  private routeUpgrade = (req: IncomingMessage, socket: Duplex, head: Buffer): boolean => {
+    const { pathname } = new URL(req.url ?? '/', 'http://localhost');
+    if (pathname !== this.path) {
+      return false;
+    }
+    this.handleUpgrade(req, socket, head);
+    return true;
+  };
+
+  /**
+   * 预热TTS服务（如火山引擎默认发音人的连接池），失败时不影响启动，首个请求会重新建立连接
+   */
+  private warmUpTTS(): void {
+    this.ttsProvider?.warmUp?.().catch((error) => {
+      this.logger.warn('TTS预热失败', { provider: this.ttsProvider?.name, error });
+    });
+  }
+
   /**
    * 停止服务器
    */
@@ -488,11 +899,17 @@ export class TTSServerSDK {
         try {
           client.ws.close();
         } catch (error) {
-          console.warn(`⚠️ 关闭客户端 ${clientId} 连接失败:`, error);
+          this.logger.warn('关闭客户端连接失败', { clientId, error });
         }
       });
       this.clients.clear();
 
+      // 拒绝排队中的请求
+      this.scheduler.clear();
+
+      // 关闭TTS连接（如火山引擎连接池），再次启动时重新创建
+      this.ttsProvider?.close?.();
+
       // 关闭WebSocket服务器
       if (this.wss) {
         await new Promise<void>((resolve) => {
@@ -500,6 +917,13 @@ export class TTSServerSDK {
             resolve();
           });
         });
+        this.wss = undefined;
+      }
+
+      // 外部服务器只移除升级监听，由调用方负责关闭
+      if (this.attachedServer) {
+        this.attachedServer.off('upgrade', this.routeUpgrade);
+        this.attachedServer = undefined;
       }
 
       // 关闭HTTP服务器
@@ -509,13 +933,14 @@ export class TTSServerSDK {
             resolve();
           });
         });
+        this.server = undefined;
       }
 
       this.isRunning = false;
-      console.log('🛑 TTS服务器已停止');
+      this.logger.info('TTS服务器已停止');
 
     } catch (error) {
-      console.error('❌ 服务器停止失败:', error);
+      this.logger.error('服务器停止失败', { error });
       throw error;
     }
   }
@@ -523,24 +948,31 @@ export class TTSServerSDK {
   /**
    * 处理WebSocket连接
    */
-  private handleConnection(ws: any, req: any): void {
+  private handleConnection(ws: any, req: any, principal?: Principal): void {
     const clientId = this.generateClientId();
     const clientInfo = {
       id: clientId,
       ws: ws,
       ip: req.socket.remoteAddress,
-      connectedAt: new Date()
+      principal,
+      connectedAt: new Date(),
+      audioTransport: resolveAudioTransport(ws.protocol),
+      history: new ConversationHistory(this.config.ai?.history),
+      /** 进行中的对话和合成请求，cancel 时中止 */
+      inflight: new Map<string, AbortController>()
     };
 
     this.clients.set(clientId, clientInfo);
-    console.log(`📱 客户端连接: ${clientId} (${clientInfo.ip})`);
+    this.logger.info('客户端连接', { clientId, ip: clientInfo.ip, principal: principal?.id, audioTransport: clientInfo.audioTransport });
+    this.callbacks.onClientConnected?.(clientId, this.toClientInfo(clientInfo));
 
     // 发送连接确认
     this.sendToClient(clientId, {
       type: 'connection_established',
       data: {
         message: '连接已建立',
-        clientId: clientId
+        clientId: clientId,
+        audioTransport: clientInfo.audioTransport
       },
       timestamp: Date.now()
     });
@@ -552,13 +984,17 @@ export class TTSServerSDK {
 
     // 处理断开连接
     ws.on('close', () => {
+      // 客户端已离开，进行中的请求没有必要继续合成
+      clientInfo.inflight.forEach((controller) => controller.abort());
       this.clients.delete(clientId);
-      console.log(`📱 客户端断开: ${clientId}`);
+      this.logger.info('客户端断开', { clientId });
+      this.callbacks.onClientDisconnected?.(clientId, this.toClientInfo(clientInfo));
+      this.rateLimiter.deleteClient(clientId);
     });
 
     // 处理错误
     ws.on('error', (error: Error) => {
-      console.error(`❌ 客户端错误 ${clientId}:`, error);
+      this.logger.error('客户端连接错误', { clientId, error });
       this.sendErrorToClient(clientId, '连接错误', error.message);
     });
   }
@@ -572,13 +1008,29 @@ export class TTSServerSDK {
       
       switch (message.type) {
         case 'start_conversation':
-          await this.handleStartConversation(clientId, message.payload?.userMessage);
+          await this.handleStartConversation(clientId, message.payload?.userMessage, message.payload?.options, message.payload?.conversationId);
           break;
           
         case 'synthesize_text':
           await this.handleSynthesizeText(clientId, message.payload);
           break;
           
+        case 'cancel':
+          this.handleCancel(clientId, message.payload?.conversationId ?? message.payload?.requestId);
+          break;
+
+        case 'reset_conversation':
+          this.handleResetConversation(clientId);
+          break;
+
+        case 'get_history':
+          this.sendToClient(clientId, {
+            type: 'history',
+            data: { messages: this.clients.get(clientId)?.history.getMessages() ?? [] },
+            timestamp: Date.now()
+          });
+          break;
+
         case 'ping':
           this.sendToClient(clientId, {
             type: 'pong' as any,
@@ -588,261 +1040,974 @@ export class TTSServerSDK {
           break;
           
         default:
-          console.warn(`⚠️ 未知消息类型: ${message.type}`);
+          this.logger.warn('未知消息类型', { clientId, event: message.type });
       }
       
     } catch (error) {
-      console.error(`❌ 处理客户端消息失败:`, error);
+      this.logger.error('处理客户端消息失败', { clientId, error });
       this.sendErrorToClient(clientId, '消息处理失败', (error as Error).message);
     }
   }
 
   /**
-   * 处理开始对话请求
+   * 中止客户端进行中的对话或合成请求，未指定 ID 时中止全部
    */
-  private async handleStartConversation(clientId: string, userMessage?: string): Promise<void> {
-    if (!this.kimiClient) {
-      this.sendErrorToClient(clientId, 'AI服务未配置', '请检查AI配置');
+  private handleCancel(clientId: string, requestId?: string): void {
+    const inflight: Map<string, AbortController> | undefined = this.clients.get(clientId)?.inflight;
+    if (!inflight) {
       return;
     }
 
-    if (!userMessage) {
-      this.sendErrorToClient(clientId, '参数错误', '用户消息不能为空');
-      return;
+    const targets = requestId ? [requestId] : Array.from(inflight.keys());
+    for (const key of targets) {
+      inflight.get(key)?.abort();
     }
+    this.logger.info('取消请求', { clientId, requestId, canceled: targets.filter((key) => inflight.has(key)).length });
+  }
 
-    try {
-      // 发送对话开始事件
-      this.sendToClient(clientId, {
-        type: 'conversation_started',
-        data: {
-          message: '开始处理对话',
-          userMessage: userMessage
-        },
-        timestamp: Date.now()
-      });
-
-      // 创建事件回调
-      const callbacks: ServerEventCallbacks = {
-        onTextChunk: (event) => this.sendToClient(clientId, event),
-        onSentenceStart: (event) => this.sendToClient(clientId, event),
-        onAudioChunk: (event) => {
-          // 转换音频数据为数组格式以便JSON序列化
-          const eventToSend = {
-            ...event,
-            data: {
-              ...event.data,
-              audioData: Array.from(event.data.audioData as Uint8Array)
-            }
-          };
-          this.sendToClient(clientId, eventToSend);
-        },
-        onSentenceComplete: (event) => this.sendToClient(clientId, event),
-        onChatComplete: (event) => this.sendToClient(clientId, event),
-        onError: (error) => this.sendErrorToClient(clientId, '处理错误', error.data.message)
-      };
+  /**
+   * 登记进行中的请求，返回用于取消的 AbortController
+   */
+  private trackRequest(clientId: string, key: string): AbortController {
+    const controller = new AbortController();
+    this.clients.get(clientId)?.inflight.set(key, controller);
+    return controller;
+  }
 
-      // 执行对话处理
-      await this.processConversation(userMessage, callbacks);
+  private untrackRequest(clientId: string, key: string): void {
+    this.clients.get(clientId)?.inflight.delete(key);
+  }
 
+  /**
+   * 取消TTS会话并释放连接，取消失败时直接关闭连接
+   */
+  private async cancelTTSSession(session: TTSProviderSession): Promise<void> {
+    try {
+      await session.cancel();
+      await session.finished();
     } catch (error) {
-      console.error(`❌ 对话处理失败:`, error);
-      this.sendErrorToClient(clientId, '对话处理失败', (error as Error).message);
+      this.logger.warn('取消TTS会话失败', { sessionId: session.sessionId, error });
+      session.close();
     }
   }
 
   /**
-   * 处理客户端TTS合成请求
+   * 清空客户端的对话历史
    */
-  private async handleSynthesizeText(clientId: string, payload?: any): Promise<void> {
-    if (!payload?.requestId || !payload?.text) {
-      this.sendErrorToClient(clientId, '参数错误', 'requestId和text是必需的')
-      return
+  private handleResetConversation(clientId: string): void {
+    const client = this.clients.get(clientId);
+    if (!client) {
+      return;
     }
 
-    const { requestId, text } = payload
-
+    client.history.clear();
+    this.logger.info('对话历史已重置', { clientId });
+    this.sendToClient(clientId, {
+      type: 'conversation_reset',
+      data: { message: '对话历史已清空' },
+      timestamp: Date.now()
+    });
+  }
+
+  /**
+   * 处理开始对话请求
+   */
+  private async handleStartConversation(clientId: string, userMessage?: string, options?: SynthesisOptions, requestedId?: string): Promise<void> {
+    // 客户端未指定时由服务端生成，该对话的所有事件都带有此ID
+    const conversationId = requestedId || this.generateConversationId();
+    const correlation = { conversationId };
+
+    if (!this.llm) {
+      this.sendErrorToClient(clientId, 'AI服务未配置', '请检查AI配置', undefined, correlation);
+      return;
+    }
+
+    if (!userMessage) {
+      this.sendErrorToClient(clientId, '参数错误', '用户消息不能为空', undefined, correlation);
+      return;
+    }
+
+    if (this.clients.get(clientId)?.inflight.has(conversationId)) {
+      this.sendErrorToClient(clientId, '参数错误', `对话 ${conversationId} 正在进行中`, undefined, correlation);
+      return;
+    }
+
+    // 在调用AI之前校验合成参数
     try {
-      console.log(`🔊 处理TTS合成请求: ${text} (${requestId})`)
-      
-      // 初始化TTS
-      const ws = await initWebScoketInstance(this.ttsConfig)
-      const session = await startSession(ws, this.ttsConfig)
-      
-      // 收集音频数据
-      const audioChunks: Uint8Array[] = []
-      
-      // 音频处理
-      const audioProcessPromise = new Promise(async (resolve, reject) => {
-        try {
-          while (true) {
-            const msg = await session.receive()
-            
-            switch (msg.event) {
-              case EventType.TTSResponse:
-                if (msg.payload && msg.payload.length > 0) {
-                  audioChunks.push(msg.payload)
-                }
-                break
-                
-              case EventType.TTSEnded:
-                console.log(`✅ TTS合成完成: ${requestId}`)
-                resolve(undefined)
-                return
-                
-              default:
-                // 忽略其他消息
-                break
-            }
-          }
-        } catch (error) {
-          reject(error)
-        }
-      })
-      
-      // 发送文本到TTS
-      await session.send(text)
-      
-      // 等待音频处理完成
-      await audioProcessPromise
-      await session.finished()
-      
-      // 合并音频数据
-      const totalLength = audioChunks.reduce((sum, chunk) => sum + chunk.length, 0)
-      const mergedAudio = new Uint8Array(totalLength)
-      let offset = 0
-      
-      for (const chunk of audioChunks) {
-        mergedAudio.set(chunk, offset)
-        offset += chunk.length
+      validateSynthesisOptions(options);
+    } catch (error) {
+      this.sendErrorToClient(clientId, '参数错误', (error as Error).message, undefined, correlation);
+      return;
+    }
+
+    let lease: RateLimitLease;
+    try {
+      lease = this.rateLimiter.acquire(clientId, this.clients.get(clientId)?.principal?.id);
+    } catch (error) {
+      this.sendRateLimitError(clientId, error as RateLimitError, correlation);
+      return;
+    }
+
+    const controller = this.trackRequest(clientId, conversationId);
+
+    try {
+      // 发送对话开始事件
+      this.sendToClient(clientId, {
+        type: 'conversation_started',
+        conversationId,
+        data: {
+          message: '开始处理对话',
+          userMessage: userMessage
+        },
+        timestamp: Date.now()
+      });
+
+      // 创建事件回调
+      const callbacks: ServerEventCallbacks = {
+        onTextChunk: (event) => this.sendToClient(clientId, event),
+        onSentenceStart: (event) => this.sendToClient(clientId, event),
+        onAudioChunk: (event) => this.sendToClient(clientId, event),
+        onSentenceComplete: (event) => this.sendToClient(clientId, event),
+        onChatComplete: (event) => this.sendToClient(clientId, event),
+        onQueued: (event) => this.sendToClient(clientId, event),
+        onQueuePosition: (event) => this.sendToClient(clientId, event),
+        onError: (error) => this.sendErrorToClient(clientId, '处理错误', error.data.message, undefined, correlation)
+      };
+
+      // 带上该客户端之前的对话，超出上限的早期轮次不会发送
+      const client = this.clients.get(clientId);
+      const history: ConversationHistory | undefined = client?.history;
+      const context = (history?.getContext(userMessage) ?? []).map(({ role, content }) => ({ role, content }));
+
+      // 执行对话处理
+      await this.processConversation({
+        conversationId,
+        messages: [
+          { role: 'system', content: this.config.ai!.systemPrompt! },
+          ...context,
+          { role: 'user', content: userMessage }
+        ],
+        callbacks,
+        signal: controller.signal,
+        job: { kind: 'conversation', clientId, principal: client?.principal },
+        options,
+        // 回复长度事先未知，按实际送入 TTS 的字符计入额度
+        onSentenceSent: (sentence) => lease.consume(sentence.length),
+        // AI回复完整后记入历史，中途失败的轮次不记录
+        onResponseComplete: (fullText) => history?.append(userMessage, fullText)
+      });
+
+    } catch (error) {
+      if (controller.signal.aborted) {
+        this.logger.info('对话已取消', { clientId, conversationId });
+        this.sendToClient(clientId, {
+          type: 'conversation_canceled',
+          conversationId,
+          data: { message: '对话已取消' },
+          timestamp: Date.now()
+        });
+        return;
       }
+
+      this.logger.error('对话处理失败', { clientId, conversationId, error });
+      this.sendErrorToClient(
+        clientId,
+        '对话处理失败',
+        (error as Error).message,
+        error instanceof VolcengineProtocolError || error instanceof SchedulerError || error instanceof LLMProviderError ? error.retryable : undefined,
+        correlation
+      );
+    } finally {
+      this.untrackRequest(clientId, conversationId);
+      lease.release();
+    }
+  }
+
+  /**
+   * 处理客户端TTS合成请求
+   */
+  private async handleSynthesizeText(clientId: string, payload?: any): Promise<void> {
+    if (!payload?.requestId || !payload?.text) {
+      this.sendErrorToClient(clientId, '参数错误', 'requestId和text是必需的', undefined, { requestId: payload?.requestId })
+      return
+    }
+
+    const { requestId, text, options } = payload
+
+    let lease: RateLimitLease
+    try {
+      lease = this.rateLimiter.acquire(clientId, this.clients.get(clientId)?.principal?.id, text.length)
+    } catch (error) {
+      const rateLimitError = error as RateLimitError
+      this.logger.warn('TTS合成请求被限流', { clientId, requestId, limit: rateLimitError.limit, scope: rateLimitError.scope })
+      this.sendToClient(clientId, {
+        type: 'synthesis_error',
+        requestId,
+        data: {
+          requestId,
+          message: rateLimitError.message,
+          ...this.rateLimitFields(rateLimitError)
+        },
+        timestamp: Date.now()
+      })
+      return
+    }
+
+    const controller = this.trackRequest(clientId, requestId)
+
+    try {
+      this.logger.info('处理TTS合成请求', { clientId, requestId, textLength: text.length })
+
+      const result = await this.runSynthesis(
+        text,
+        { ...options, signal: controller.signal },
+        { kind: 'synthesis', clientId, principal: this.clients.get(clientId)?.principal },
+        requestId,
+        {
+          onQueued: (event) => this.sendToClient(clientId, event),
+          onQueuePosition: (event) => this.sendToClient(clientId, event)
+        }
+      )
       
       // 发送合成完成响应
       this.sendToClient(clientId, {
-        type: 'synthesis_complete' as any,
+        type: 'synthesis_complete',
+        requestId,
         data: {
           requestId,
-          audioData: Array.from(mergedAudio), // 转换为数组以便JSON序列化
-          duration: audioChunks.length * 100 // 估算持续时间
+          audioData: result.audio,
+          duration: result.sentences.reduce((sum, sentence) => sum + (sentence.totalAudioDuration ?? 0), 0),
+          ...(result.cached && { cached: true })
         },
         timestamp: Date.now()
       })
       
-      console.log(`🎵 TTS合成完成并发送: ${requestId}, 音频大小: ${mergedAudio.length} bytes`)
+      this.logger.info('TTS合成完成并发送', { clientId, requestId, audioBytes: result.audio.length, cached: result.cached })
       
     } catch (error) {
-      console.error(`❌ TTS合成失败 (${requestId}):`, error)
+      const canceled = controller.signal.aborted
+      if (canceled) {
+        this.logger.info('TTS合成已取消', { clientId, requestId })
+      } else {
+        this.logger.error('TTS合成失败', { clientId, requestId, error })
+      }
       
       // 发送错误响应
       this.sendToClient(clientId, {
-        type: 'synthesis_error' as any,
+        type: 'synthesis_error',
+        requestId,
         data: {
           requestId,
-          message: (error as Error).message
+          message: canceled ? '合成已取消' : (error as Error).message,
+          ...(canceled && { canceled }),
+          ...((error instanceof VolcengineProtocolError || error instanceof SchedulerError) && {
+            code: error.code,
+            retryable: error.retryable
+          })
         },
         timestamp: Date.now()
       })
+    } finally {
+      this.untrackRequest(clientId, requestId)
+      lease.release()
+    }
+  }
+
+  /**
+   * 处理HTTP请求
+   */
+  private async handleHttpRequest(
+    req: IncomingMessage,
+    res: ServerResponse,
+    next?: (error?: unknown) => void
+  ): Promise<void> {
+    const { pathname } = new URL(req.url ?? '/', 'http://localhost');
+    const route = Object.prototype.hasOwnProperty.call(this.httpRoutes, pathname) ? this.httpRoutes[pathname] : undefined;
+    if (!route && next) {
+      next();
+      return;
+    }
+
+    try {
+      if (!route) {
+        throw new HttpError(404, `not found: ${pathname}`);
+      }
+
+      this.checkOrigin(req);
+      setCorsHeaders(res, req.headers.origin, this.config.server!.corsOrigin);
+
+      // CORS 预检
+      if (req.method === 'OPTIONS') {
+        res.writeHead(204, {
+          'Access-Control-Allow-Methods': 'POST, OPTIONS',
+          'Access-Control-Allow-Headers': req.headers['access-control-request-headers'] ?? 'Content-Type, Authorization',
+          'Access-Control-Max-Age': '86400'
+        });
+        res.end();
+        return;
+      }
+
+      if (req.method !== 'POST') {
+        throw new HttpError(405, `method ${req.method} not allowed`);
+      }
+      const principal = await this.authenticateRequest(req);
+      await route(req, res, principal);
+    } catch (error) {
+      if (res.destroyed) {
+        // 客户端已断开（如排队期间离开），不需要再响应
+        this.logger.info('HTTP请求已取消', { path: pathname });
+        return;
+      }
+
+      const httpError = this.toHttpError(error);
+      if (httpError.status >= 500) {
+        this.logger.error('HTTP请求处理失败', { path: pathname, status: httpError.status, error });
+      } else {
+        this.logger.warn('HTTP请求被拒绝', { path: pathname, status: httpError.status, reason: httpError.message });
+      }
+
+      if (res.headersSent) {
+        // 音频已经开始分块返回，只能中断响应让客户端感知失败
+        res.destroy(error as Error);
+      } else if (error instanceof RateLimitError && error.retryAfterMs !== undefined) {
+        sendJsonError(res, httpError, { 'Retry-After': String(Math.ceil(error.retryAfterMs / 1000)) });
+      } else {
+        sendJsonError(res, httpError);
+      }
+    }
+  }
+
+  /**
+   * 处理 POST /v1/synthesize：返回音频字节（可分块流式返回），或带时间戳的 JSON
+   */
+  private async handleSynthesizeRequest(req: IncomingMessage, res: ServerResponse, principal?: Principal): Promise<void> {
+    const body = await readJsonBody<SynthesizeRequest>(req);
+    if (!body || typeof body.text !== 'string' || !body.text.trim()) {
+      throw new HttpError(400, 'text is required');
+    }
+    if (body.format !== undefined && !['mp3', 'pcm', 'wav'].includes(body.format)) {
+      throw new HttpError(400, `unsupported format: ${body.format}`);
+    }
+    if (body.sampleRate !== undefined && !(Number.isInteger(body.sampleRate) && body.sampleRate > 0)) {
+      throw new HttpError(400, `invalid sampleRate: ${body.sampleRate}`);
+    }
+
+    const requestId = this.generateRequestId();
+    const text = body.text;
+    const format = body.format ?? this.ttsConfig.audioFormat ?? 'mp3';
+    const sampleRate = body.sampleRate ?? this.ttsConfig.sampleRate ?? 24000;
+    const contentType = audioContentType(format);
+    const wantsJson = body.response
+      ? body.response === 'json'
+      : /application\/json/i.test(req.headers.accept ?? '');
+    const stream = !wantsJson && body.stream !== false;
+    this.acquireHttpLease(req, res, principal, text.length);
+    const signal = this.abortOnResponseClose(res);
+
+    this.logger.info('处理HTTP合成请求', { requestId, principal: principal?.id, textLength: text.length, format, response: wantsJson ? 'json' : 'audio', stream });
+
+    const headers = {
+      'Content-Type': contentType,
+      'Cache-Control': 'no-store',
+      'X-Request-Id': requestId
+    };
+
+    if (stream) {
+      validateSynthesisOptions(body.options);
+      if (await this.streamAudioResponse(res, text, body.options ?? {}, { format, sampleRate }, { kind: 'http', principal }, headers, signal)) {
+        this.logger.info('HTTP合成请求完成', { requestId, stream });
+      } else {
+        this.logger.info('HTTP合成请求已取消', { requestId });
+      }
+      return;
+    }
+
+    const result = await this.runSynthesis(text, { ...body.options, format, sampleRate, signal }, { kind: 'http', principal }, requestId);
+    const cacheHeaders: Record<string, string> = this.cache ? { 'X-Cache': result.cached ? 'HIT' : 'MISS' } : {};
+
+    if (wantsJson) {
+      const response: SynthesizeResponse = {
+        requestId,
+        contentType,
+        format,
+        sampleRate,
+        audio: Buffer.from(result.audio.buffer, result.audio.byteOffset, result.audio.length).toString('base64'),
+        sentences: result.sentences
+      };
+      sendJson(res, 200, response, { 'Cache-Control': 'no-store', 'X-Request-Id': requestId, ...cacheHeaders });
+    } else {
+      res.writeHead(200, { ...headers, ...cacheHeaders, 'Content-Length': String(result.audio.length) });
+      res.end(result.audio);
+    }
+
+    this.logger.info('HTTP合成请求完成', { requestId, stream, cached: result.cached });
+  }
+
+  /**
+   * 处理 POST /v1/audio/speech：兼容 OpenAI 语音合成接口，分块流式返回音频
+   */
+  private async handleSpeechRequest(req: IncomingMessage, res: ServerResponse, principal?: Principal): Promise<void> {
+    const body = await readJsonBody<SpeechRequest>(req);
+    if (!body || typeof body.input !== 'string' || !body.input.trim()) {
+      throw new HttpError(400, 'input is required');
+    }
+    if (typeof body.voice !== 'string' || !body.voice.trim()) {
+      throw new HttpError(400, 'voice is required');
+    }
+    const format = body.response_format ?? 'mp3';
+    if (format !== 'mp3' && format !== 'wav' && format !== 'pcm') {
+      throw new HttpError(400, `unsupported response_format: ${format}`);
+    }
+    const speed = body.speed ?? 1;
+    if (typeof speed !== 'number' || !(speed >= 0.25 && speed <= 4)) {
+      throw new HttpError(400, `speed must be between 0.25 and 4, got ${body.speed}`);
+    }
+
+    const requestId = this.generateRequestId();
+    const options: SynthesisOptions = {
+      voice: this.resolveSpeechVoice(body.voice),
+      rate: Math.min(2, Math.max(0.5, speed))
+    };
+    // OpenAI 的 pcm 为 24kHz 16 位单声道，与其保持一致
+    const sampleRate = format === 'pcm' ? 24000 : this.ttsConfig.sampleRate ?? 24000;
+    this.acquireHttpLease(req, res, principal, body.input.length);
+    const signal = this.abortOnResponseClose(res);
+
+    this.logger.info('处理语音合成请求', { requestId, principal: principal?.id, model: body.model, voice: body.voice, speaker: options.voice, format, textLength: body.input.length });
+
+    validateSynthesisOptions(options);
+    const headers = {
+      'Content-Type': audioContentType(format),
+      'Cache-Control': 'no-store',
+      'X-Request-Id': requestId
+    };
+
+    if (await this.streamAudioResponse(res, body.input, options, { format, sampleRate }, { kind: 'http', principal }, headers, signal)) {
+      this.logger.info('语音合成请求完成', { requestId });
+    } else {
+      this.logger.info('语音合成请求已取消', { requestId });
+    }
+  }
+
+  /**
+   * 将 OpenAI 音色名称映射为火山引擎发音人
+   */
+  private resolveSpeechVoice(voice: string): string {
+    const voices = this.config.tts?.voices;
+    if (voices && Object.prototype.hasOwnProperty.call(voices, voice)) {
+      return voices[voice];
+    }
+    if (OPENAI_VOICES.includes(voice)) {
+      return this.ttsConfig.speaker || DEFAULT_SPEAKER;
+    }
+    return voice;
+  }
+
+  /**
+   * 为REST请求占用调用方的配额，响应结束时释放；未认证的请求没有调用方，按来源地址使用 perClient 限制
+   * @throws RateLimitError
+   */
+  private acquireHttpLease(req: IncomingMessage, res: ServerResponse, principal: Principal | undefined, characters: number): void {
+    const clientId = principal ? undefined : `http:${req.socket.remoteAddress ?? 'unknown'}`;
+    const lease = this.rateLimiter.acquire(clientId, principal?.id, characters);
+    res.once('close', () => lease.release());
+  }
+
+  /**
+   * 客户端在响应完成前断开时触发的取消信号
+   */
+  private abortOnResponseClose(res: ServerResponse): AbortSignal {
+    const controller = new AbortController();
+    res.on('close', () => {
+      if (!res.writableFinished) {
+        controller.abort();
+      }
+    });
+    return controller.signal;
+  }
+
+  /**
+   * 执行HTTP请求中的一次合成，逐个处理会话事件
+   * @returns 是否完整合成；客户端断开导致取消时返回 false
+   */
+  private async runHttpSynthesis(
+    session: TTSProviderSession,
+    text: string,
+    signal: AbortSignal,
+    onEvent: (event: TTSSessionEvent) => void | Promise<void>
+  ): Promise<boolean> {
+    try {
+      for await (const event of synthesizeOnce(session, text, signal)) {
+        await onEvent(event);
+      }
+    } catch (error) {
+      if (signal.aborted) {
+        await this.cancelTTSSession(session);
+        return false;
+      }
+      session.close();
+      throw error;
+    }
+    await session.finished();
+    return true;
+  }
+
+  /**
+   * 边合成边将音频分块写入响应（未设置 Content-Length，Node 使用分块传输）。
+   * 启用缓存时与 runSynthesis 使用同一个缓存键：命中则逐句回放缓存的音频，未命中则边写入响应边记录，完整合成后写入缓存
+   * @returns 是否完整合成；客户端断开导致取消时返回 false
+   */
+  private async streamAudioResponse(
+    res: ServerResponse,
+    text: string,
+    options: SynthesisOptions,
+    audio: { format: SynthesisCacheEntry['format']; sampleRate: number },
+    job: SessionJobInfo,
+    headers: Record<string, string>,
+    signal: AbortSignal
+  ): Promise<boolean> {
+    const { format, sampleRate } = audio;
+    const cacheKey = this.synthesisCacheKey(text, options, format, sampleRate);
+    const cached = cacheKey ? await this.cache!.get(cacheKey) : undefined;
+    if (cached) {
+      return this.writeCachedAudio(res, cached, { ...headers, 'X-Cache': 'HIT' }, signal);
+    }
+    const responseHeaders = this.cache ? { ...headers, 'X-Cache': 'MISS' } : headers;
+
+    const slot = await this.acquireSessionSlot(job, signal);
+    const session = await this.openTTSSession(slot, options, { audioFormat: format, sampleRate });
+    const recorder = cacheKey ? this.recordSynthesis() : undefined;
+    const completed = await this.runHttpSynthesis(session, text, signal, async (event) => {
+      recorder?.processor.handleSessionEvent(event);
+      if (event.type !== 'audio') {
+        return;
+      }
+      if (!res.headersSent) {
+        res.writeHead(200, responseHeaders);
+      }
+      if (!res.write(event.data)) {
+        await once(res, 'drain', { signal });
+      }
+    });
+
+    if (completed) {
+      if (!res.headersSent) {
+        res.writeHead(200, responseHeaders);
+      }
+      res.end();
+
+      const recorded = recorder?.result();
+      if (cacheKey && recorded && recorded.sentences.length > 0) {
+        this.cache!.set(cacheKey, { format, sampleRate, ...recorded });
+      }
+    }
+    return completed;
+  }
+
+  /**
+   * 将缓存的音频逐句分块写入响应
+   * @returns 是否完整写出；客户端断开时返回 false
+   */
+  private async writeCachedAudio(
+    res: ServerResponse,
+    entry: SynthesisCacheEntry,
+    headers: Record<string, string>,
+    signal: AbortSignal
+  ): Promise<boolean> {
+    res.writeHead(200, headers);
+    let offset = 0;
+    try {
+      for (const bytes of entry.sentenceBytes) {
+        const chunk = entry.audio.subarray(offset, offset + bytes);
+        offset += chunk.length;
+        if (chunk.length > 0 && !res.write(chunk)) {
+          await once(res, 'drain', { signal });
+        }
+      }
+    } catch (error) {
+      if (signal.aborted) {
+        return false;
+      }
+      throw error;
+    }
+    res.end();
+    return true;
+  }
+
+  /**
+   * 合成结果的缓存键，未配置缓存时为空
+   */
+  private synthesisCacheKey(
+    text: string,
+    options: SynthesisOptions,
+    format: SynthesisCacheEntry['format'],
+    sampleRate: number
+  ): string | undefined {
+    return this.cache?.key(text, {
+      provider: this.ttsProvider?.name,
+      speaker: options.voice || this.ttsConfig.speaker || DEFAULT_SPEAKER,
+      format,
+      sampleRate,
+      options
+    });
+  }
+
+  /**
+   * 创建记录合成结果的处理器：按句收集音频、时间戳和每句的字节数，回调仍照常转发
+   */
+  private recordSynthesis(
+    callbacks: ServerEventCallbacks = {},
+    correlation: { requestId?: string } = {}
+  ): {
+    processor: ServerStreamingAudioTextProcessor;
+    result: () => Pick<SynthesisCacheEntry, 'audio' | 'sentences' | 'sentenceBytes'>;
+  } {
+    const audioChunks: Uint8Array[] = [];
+    const sentences: SynthesizedSentence[] = [];
+    const sentenceBytes: number[] = [];
+    let pendingBytes = 0;
+    const processor = new ServerStreamingAudioTextProcessor({
+      ...callbacks,
+      onAudioChunk: (event) => {
+        audioChunks.push(event.data.audioData);
+        pendingBytes += event.data.audioData.length;
+        callbacks.onAudioChunk?.(event);
+      },
+      onSentenceComplete: (event) => {
+        sentences.push({
+          text: event.data.sentence,
+          audioTimestamps: event.data.audioTimestamps,
+          totalAudioDuration: event.data.totalAudioDuration
+        });
+        sentenceBytes.push(pendingBytes);
+        pendingBytes = 0;
+        callbacks.onSentenceComplete?.(event);
+      }
+    }, correlation);
+
+    return {
+      processor,
+      result: () => ({ audio: concatAudio(audioChunks), sentences, sentenceBytes })
+    };
+  }
+
+  /**
+   * 合成一段文本：排队获得会话名额后逐个回调句子和音频事件（带 requestId），返回合并后的音频和逐句时间戳。
+   * 启用缓存时先查缓存，命中则不占用会话名额，直接回放缓存的句子和音频
+   */
+  private async runSynthesis(
+    text: string,
+    options: ServerSynthesisOptions,
+    job: SessionJobInfo,
+    requestId: string,
+    callbacks: ServerEventCallbacks = {}
+  ): Promise<SynthesisResult> {
+    const { format: requestedFormat, sampleRate: requestedSampleRate, signal, ...synthesisOptions } = options;
+    if (requestedFormat !== undefined && !['mp3', 'pcm', 'wav'].includes(requestedFormat)) {
+      throw new RangeError(`unsupported format: ${requestedFormat}`);
+    }
+    if (requestedSampleRate !== undefined && !(Number.isInteger(requestedSampleRate) && requestedSampleRate > 0)) {
+      throw new RangeError(`invalid sampleRate: ${requestedSampleRate}`);
+    }
+    validateSynthesisOptions(synthesisOptions);
+
+    const format = requestedFormat ?? this.ttsConfig.audioFormat ?? 'mp3';
+    const sampleRate = requestedSampleRate ?? this.ttsConfig.sampleRate ?? 24000;
+    const correlation = { requestId };
+
+    const cacheKey = this.synthesisCacheKey(text, synthesisOptions, format, sampleRate);
+    const cached = cacheKey ? await this.cache!.get(cacheKey) : undefined;
+    if (cached) {
+      signal?.throwIfAborted();
+      this.replayCachedSynthesis(cached, callbacks, correlation);
+      return { requestId, format, sampleRate, audio: cached.audio, sentences: cached.sentences, cached: true };
+    }
+
+    const slot = await this.acquireSessionSlot(job, signal, callbacks, correlation);
+    const session = await this.openTTSSession(slot, synthesisOptions, { audioFormat: format, sampleRate });
+
+    const { processor, result } = this.recordSynthesis(callbacks, correlation);
+
+    try {
+      await processor.consume(synthesizeOnce(session, text, signal));
+    } catch (error) {
+      if (signal?.aborted) {
+        await this.cancelTTSSession(session);
+      } else {
+        // 连接卡住或出错时立即释放，避免请求永远挂起
+        session.close();
+      }
+      throw error;
     }
+    await session.finished();
+
+    const { audio, sentences, sentenceBytes } = result();
+    if (cacheKey && sentences.length > 0) {
+      // 写入失败只记录日志，不等待写入完成
+      this.cache!.set(cacheKey, { format, sampleRate, audio, sentences, sentenceBytes });
+    }
+    return { requestId, format, sampleRate, audio, sentences, cached: false };
+  }
+
+  /**
+   * 按缓存的句子依次发出 sentence_start、audio_chunk（每句一个分片）和 sentence_complete
+   */
+  private replayCachedSynthesis(
+    entry: SynthesisCacheEntry,
+    callbacks: ServerEventCallbacks,
+    correlation: { requestId: string }
+  ): void {
+    let offset = 0;
+    entry.sentences.forEach((sentence, sentenceId) => {
+      const audioData = entry.audio.subarray(offset, offset + (entry.sentenceBytes[sentenceId] ?? 0));
+      offset += audioData.length;
+
+      callbacks.onSentenceStart?.({
+        type: 'sentence_start',
+        ...correlation,
+        data: { sentenceId, sentence: sentence.text },
+        timestamp: Date.now()
+      });
+      if (audioData.length > 0) {
+        callbacks.onAudioChunk?.({
+          type: 'audio_chunk',
+          ...correlation,
+          data: { sentenceId, chunkIndex: 0, audioData, isLast: false },
+          timestamp: Date.now()
+        });
+      }
+      callbacks.onSentenceComplete?.({
+        type: 'sentence_complete',
+        ...correlation,
+        data: {
+          sentenceId,
+          sentence: sentence.text,
+          totalChunks: audioData.length > 0 ? 1 : 0,
+          duration: 0,
+          audioTimestamps: sentence.audioTimestamps,
+          totalAudioDuration: sentence.totalAudioDuration
+        },
+        timestamp: Date.now()
+      });
+    });
+  }
+
+  /**
+   * 将回调形式的处理流程转换为事件迭代：迭代结束或被提前终止时取消流程，流程失败时迭代抛出错误
+   */
+  private async *streamEvents(
+    externalSignal: AbortSignal | undefined,
+    run: (callbacks: ServerEventCallbacks, signal: AbortSignal) => Promise<unknown>
+  ): AsyncGenerator<ClientEvent> {
+    const queue = new AsyncEventQueue<ClientEvent>();
+    const push = (event: ClientEvent) => queue.push(event);
+    const controller = new AbortController();
+    const abort = () => controller.abort(externalSignal?.reason);
+    if (externalSignal?.aborted) {
+      abort();
+    } else {
+      externalSignal?.addEventListener('abort', abort, { once: true });
+    }
+
+    const running = run({
+      onQueued: push,
+      onQueuePosition: push,
+      onTextChunk: push,
+      onSentenceStart: push,
+      onAudioChunk: push,
+      onSentenceComplete: push,
+      onChatComplete: push
+    }, controller.signal).then(() => queue.end(), (error) => queue.fail(error));
+
+    try {
+      yield* queue;
+    } finally {
+      externalSignal?.removeEventListener('abort', abort);
+      controller.abort();
+      await running;
+    }
+  }
+
+  /**
+   * 将处理异常映射为HTTP错误
+   */
+  private toHttpError(error: unknown): HttpError {
+    if (error instanceof HttpError) {
+      return error;
+    }
+    if (error instanceof RangeError) {
+      return new HttpError(400, error.message);
+    }
+    if (error instanceof SchedulerError) {
+      return new HttpError(503, error.message, { code: error.code, retryable: error.retryable });
+    }
+    if (error instanceof RateLimitError) {
+      const { code, ...details } = this.rateLimitFields(error);
+      return new HttpError(429, error.message, { code, details });
+    }
+    if (error instanceof VolcengineProtocolError) {
+      return new HttpError(502, error.message, { code: error.code, retryable: error.retryable });
+    }
+    return new HttpError(500, (error as Error)?.message ?? 'internal error');
   }
 
   /**
    * 处理AI对话和TTS
    */
-  private async processConversation(userMessage: string, callbacks: ServerEventCallbacks): Promise<void> {
-    if (!this.kimiClient) {
+  private async processConversation(run: ConversationRun): Promise<void> {
+    const { conversationId, callbacks, signal, job, options } = run;
+    const clientId = job.clientId;
+    if (!this.llm) {
       throw new Error('AI客户端未初始化');
     }
+    const llm = this.llm;
 
-    // 创建AI对话流
-    const completion = await this.kimiClient.chat.completions.create({
-      model: this.config.ai!.model!,
-      messages: [
-        { "role": "system", "content": this.config.ai!.systemPrompt! },
-        { "role": "user", "content": userMessage }
-      ],
-      stream: true,
-    });
+    // 先获得TTS会话名额再请求AI，避免排队期间AI的流式响应无人读取
+    const slot = await this.acquireSessionSlot(job, signal, callbacks, { conversationId });
+
+    // 创建AI对话流，等到第一段文本再打开TTS会话，模型请求失败时不占用TTS连接
+    const chunks = llm.stream({ messages: run.messages, signal })[Symbol.asyncIterator]();
+    let first: IteratorResult<string>;
+    try {
+      first = await chunks.next();
+    } catch (error) {
+      slot.release();
+      throw error;
+    }
 
     // 初始化TTS
-    const ws = await initWebScoketInstance(this.ttsConfig);
-    const session = await startSession(ws, this.ttsConfig);
+    let session: TTSProviderSession;
+    try {
+      session = await this.openTTSSession(slot, options);
+    } catch (error) {
+      await chunks.return?.();
+      throw error;
+    }
+    if (signal.aborted) {
+      await chunks.return?.();
+      await this.cancelTTSSession(session);
+      signal.throwIfAborted();
+    }
 
     // 创建流式处理器
-    const processor = new ServerStreamingAudioTextProcessor(callbacks);
+    const processor = new ServerStreamingAudioTextProcessor(callbacks, { conversationId });
+
+    // 文本发送到TTS之后才开始计算接收超时，AI生成耗时不计入；AI流程失败时以同一错误结束，音频流程不会一直等待
+    let markTextSent!: () => void;
+    let failTextSent!: (error: unknown) => void;
+    const textSent = new Promise<void>((resolve, reject) => {
+      markTextSent = resolve;
+      failTextSent = reject;
+    });
 
-    // 音频处理流
-    const audioProcessPromise = new Promise(async (resolve, reject) => {
+    // 模型出错时只停止读取音频，随后取消会话，连接可以放回连接池
+    const stopAudio = new AbortController();
+    const forwardAbort = () => stopAudio.abort(signal.reason);
+    signal.addEventListener('abort', forwardAbort, { once: true });
+    let modelFailed = false;
+    const nextChunk = async () => {
       try {
-        while (true) {
-          const msg = await session.receive();
-            
-          switch (msg.event) {
-            case EventType.TTSSentenceStart:
-              processor.handleSentenceStart(msg);
-              break;
-              
-            case EventType.TTSResponse:
-              processor.handleAudioResponse(msg);
-              break;
-              
-            case EventType.TTSSentenceEnd:
-              processor.handleSentenceEnd(msg);
-              break;
-              
-            case EventType.TTSEnded:
-              console.log("🏁 TTS处理完成");
-              resolve(undefined);
-              return;
-              
-            default:
-              console.log(`📨 其他消息: ${msg.toString()}`);
-          }
-        }
+        return await chunks.next();
       } catch (error) {
-        reject(error);
+        modelFailed = true;
+        throw error;
       }
-    });
+    };
+
+    // 音频处理流：每句一个 TaskRequest，直到 finishInput 之后的 SessionFinished 才结束
+    const audioProcessPromise = (async () => {
+      await textSent;
+      await processor.consume(session.events({ signal: stopAudio.signal }));
+      this.logger.debug('TTS处理完成', { clientId, conversationId, sessionId: session.sessionId, event: 'SessionFinished' });
+    })();
+
+    // AI对话处理流：边生成边切句，每个完整句子立即发送到TTS
+    const chatProcessPromise = (async () => {
+      const segmenter = new SentenceSegmenter();
+      let fullAIResponse = '';
+      const spokenSentences: string[] = [];
+
+      const sendSentence = async (sentence: string) => {
+        // 取消后不再发送新的文本
+        signal.throwIfAborted();
+        // 规范化只影响朗读的文本，只剩代码块、emoji 等不朗读的内容时跳过
+        const spoken = this.normalizeText ? this.normalizeText(sentence) : sentence;
+        if (!spoken) {
+          return;
+        }
+        await session.send(spoken);
+        run.onSentenceSent?.(spoken);
+        spokenSentences.push(spoken);
+        markTextSent();
+      };
 
-    // AI对话处理流
-    const chatProcessPromise = new Promise(async (resolve, reject) => {
       try {
-        let fullAIResponse = ''
-        
-        // 收集完整的AI响应
-        for await (const chunk of completion) {
-          const content = chunk.choices[0].delta.content;
+        for (let next = first; !next.done; next = await nextChunk()) {
+          const content = next.value;
           if (content) {
-            fullAIResponse += content
+            fullAIResponse += content;
             // 发送文本片段事件（原始内容）
             processor.handleTextChunk(content);
+            for (const sentence of segmenter.push(content)) {
+              await sendSentence(sentence);
+            }
           }
         }
-        
-        console.log('🤖 原始AI响应:', fullAIResponse)
-        
-        // 直接使用AI响应作为TTS内容和完整文本
-        const ttsContent = fullAIResponse;
-        console.log('🔊 TTS内容:', ttsContent)
-        
-        // 发送内容到TTS
-        await session.send(ttsContent);
-        
-        // 发送聊天完成事件
+
+        const rest = segmenter.flush();
+        if (rest) {
+          await sendSentence(rest);
+        }
+        await session.finishInput();
+        markTextSent();
+        this.logger.debug('AI响应已全部发送到TTS', {
+          clientId,
+          sessionId: session.sessionId,
+          sentences: spokenSentences.length,
+          textLength: fullAIResponse.length,
+        });
+
+        run.onResponseComplete?.(fullAIResponse);
+
         processor.fullText = fullAIResponse;
-        processor.handleChatComplete();
-        
-        resolve(undefined);
+        if (this.normalizeText) {
+          processor.spokenText = joinSentences(spokenSentences);
+        }
       } catch (error) {
-        console.error('❌ AI对话处理失败:', error)
-        reject(error);
+        failTextSent(error);
+        // 发送失败时停止读取模型输出，释放其连接
+        await chunks.return?.().catch(() => {});
+        if (!signal.aborted) {
+          this.logger.error('AI对话处理失败', { clientId, conversationId, provider: llm.name, sessionId: session.sessionId, error });
+        }
+        throw error;
       }
-    });
+    })();
     
     // 等待两个流程都完成
-    await Promise.all([chatProcessPromise, audioProcessPromise]);
+    try {
+      await Promise.all([chatProcessPromise, audioProcessPromise]);
+    } catch (error) {
+      if (signal.aborted || modelFailed) {
+        // 等AI流程停止发送、音频流程停止读取后再取消会话，避免 CancelSession 之后还有 TaskRequest
+        stopAudio.abort(error);
+        await Promise.allSettled([chatProcessPromise, audioProcessPromise]);
+        await this.cancelTTSSession(session);
+      } else {
+        // TTS出错时关闭连接并释放名额，等待中的接收会随之结束
+        session.close();
+        await audioProcessPromise.catch(() => {});
+      }
+      throw error;
+    } finally {
+      signal.removeEventListener('abort', forwardAbort);
+    }
+
+    // 所有句子的音频都已发出，chat_complete 是本轮对话的最后一个事件
+    processor.handleChatComplete();
     await session.finished();
     
-    console.log("🎉 对话处理完成，服务器内存已清理");
+    this.logger.info('对话处理完成', { clientId, conversationId, sessionId: session.sessionId });
   }
 
   /**
@@ -852,9 +2017,14 @@ export class TTSServerSDK {
     const client = this.clients.get(clientId);
     if (client && client.ws.readyState === 1) { // WebSocket.OPEN
       try {
-        client.ws.send(JSON.stringify(event));
+        // 携带音频的事件按协商结果发送二进制帧或 JSON
+        if (client.audioTransport === 'binary' && hasAudioData(event)) {
+          client.ws.send(encodeAudioFrame(event));
+        } else {
+          client.ws.send(serializeJsonEvent(event));
+        }
       } catch (error) {
-        console.error(`❌ 发送消息到客户端 ${clientId} 失败:`, error);
+        this.logger.error('发送消息到客户端失败', { clientId, event: event.type, error });
       }
     }
   }
@@ -862,12 +2032,20 @@ export class TTSServerSDK {
   /**
    * 发送错误消息到客户端
    */
-  private sendErrorToClient(clientId: string, message: string, details?: string): void {
+  private sendErrorToClient(
+    clientId: string,
+    message: string,
+    details?: string,
+    retryable?: boolean,
+    correlation?: { conversationId?: string; requestId?: string }
+  ): void {
     const errorEvent: ErrorEvent = {
       type: 'error',
+      ...correlation,
       data: {
         message: message,
-        code: details
+        code: details,
+        retryable
       },
       timestamp: Date.now()
     };
@@ -875,6 +2053,41 @@ export class TTSServerSDK {
     this.sendToClient(clientId, errorEvent);
   }
 
+  /**
+   * 发送限流错误
+   */
+  private sendRateLimitError(
+    clientId: string,
+    error: RateLimitError,
+    correlation?: { conversationId?: string; requestId?: string }
+  ): void {
+    this.logger.warn('请求被限流', { clientId, ...correlation, limit: error.limit, scope: error.scope });
+    const errorEvent: ErrorEvent = {
+      type: 'error',
+      ...correlation,
+      data: {
+        message: error.message,
+        ...this.rateLimitFields(error)
+      },
+      timestamp: Date.now()
+    };
+    this.sendToClient(clientId, errorEvent);
+  }
+
+  /**
+   * 限流错误的结构化字段
+   */
+  private rateLimitFields(error: RateLimitError) {
+    return {
+      code: error.code,
+      // 并发超限时等其他会话结束即可重试；单次请求超过额度时重试也不会成功
+      retryable: error.limit === 'concurrency' || error.retryAfterMs !== undefined,
+      limit: error.limit,
+      scope: error.scope,
+      ...(error.retryAfterMs !== undefined && { retryAfterMs: error.retryAfterMs })
+    };
+  }
+
   /**
    * 生成客户端ID
    */
@@ -882,6 +2095,20 @@ export class TTSServerSDK {
     return `client_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
   }
 
+  /**
+   * 生成HTTP请求ID
+   */
+  private generateRequestId(): string {
+    return `req_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  }
+
+  /**
+   * 生成对话ID
+   */
+  private generateConversationId(): string {
+    return `conv_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  }
+
   /**
    * 获取服务器状态
    */
@@ -889,19 +2116,37 @@ export class TTSServerSDK {
     return {
       isRunning: this.isRunning,
       clientCount: this.clients.size,
+      ttsPool: this.getTTSPoolStats(),
+      scheduler: this.scheduler.getStats(),
+      cache: this.cache?.getStats(),
       config: this.config
     };
   }
 
+  /**
+   * 汇总所有连接池的使用情况
+   */
+  private getTTSPoolStats(): ServerStatus['ttsPool'] {
+    return this.ttsProvider instanceof VolcengineTTSProvider ? this.ttsProvider.getPoolStats() : undefined;
+  }
+
   /**
    * 获取连接的客户端列表
    */
   getClients(): ClientInfo[] {
-    return Array.from(this.clients.values()).map(client => ({
+    return Array.from(this.clients.values()).map(client => this.toClientInfo(client));
+  }
+
+  private toClientInfo(client: any): ClientInfo {
+    return {
       id: client.id,
       ip: client.ip,
-      connectedAt: client.connectedAt
-    }));
+      connectedAt: client.connectedAt,
+      audioTransport: client.audioTransport,
+      principal: client.principal,
+      usage: this.rateLimiter.getClientUsage(client.id),
+      ...(client.principal && { principalUsage: this.rateLimiter.getPrincipalUsage(client.principal.id) })
+    };
   }
 
   /**
@@ -919,4 +2164,49 @@ export class TTSServerSDK {
  */
 export function createTTSServer(config?: TTSConfig): TTSServerSDK {
   return new TTSServerSDK(config);
-}
\ No newline at end of file
+}
+
+// 火山引擎 TTS 会话
+export { initWebScoketInstance, startSession, decodeSessionEvent } from './core/tts';
+export type { TTSSession, SessionEventOptions } from './core/tts';
+export { VolcenginePool } from './core/pool';
+export { VolcengineTTSProvider } from './core/volcengine-provider';
+export { SineWaveTTSProvider } from './core/sine-provider';
+export type { SineWaveTTSProviderOptions } from './core/sine-provider';
+export { SentenceSegmenter } from './core/segmenter';
+export { AUDIO_BINARY_PROTOCOL, encodeAudioFrame, decodeAudioFrame } from './core/audio-frame';
+export type { SentenceSegmenterOptions } from './core/segmenter';
+
+// 认证
+export { apiKeyAuth, jwtAuth, combineAuth, verifyJwt, extractCredential } from './core/auth';
+export type { CredentialOptions, JwtAuthOptions } from './core/auth';
+export { HttpError } from './core/http';
+export { RateLimiter, RateLimitError, TokenBucket } from './core/rate-limit';
+export type { RateLimitLease } from './core/rate-limit';
+export { SessionScheduler, SchedulerError } from './core/scheduler';
+export type { SchedulerSlot, ScheduledJob, SchedulerErrorCode } from './core/scheduler';
+
+// 大模型
+export { OpenAICompatibleProvider, AnthropicMessagesProvider, IterableProvider, ScriptedLLMProvider, LLMProviderError } from './core/llm';
+export type { OpenAICompatibleProviderOptions, AnthropicMessagesProviderOptions, ScriptedLLMProviderOptions, ScriptedReply } from './core/llm';
+
+// 合成缓存
+export { SynthesisCache, MemoryCacheStore, FileSystemCacheStore, KeyValueCacheStore, synthesisCacheKey, normalizeCacheText } from './core/synthesis-cache';
+export type { SynthesisCacheKeyParams, MemoryCacheStoreOptions, FileSystemCacheStoreOptions, KeyValueCacheStoreOptions } from './core/synthesis-cache';
+
+// 文本规范化
+export { createTextNormalizer, normalizeText, stripMarkdown, removeEmoji, verbalizeUrls, expandAbbreviations, readNumbers, detectLanguage, joinSentences } from './core/normalizer';
+export type { NormalizationLanguage } from './core/normalizer';
+
+// 火山引擎协议通道
+export { VolcengineChannel } from './core/channel';
+export type { ReceiveOptions, ChannelOptions } from './core/channel';
+export { VolcengineProtocolError } from './core/errors';
+
+// 日志
+export { silentLogger, createConsoleLogger } from './core/logger';
+
+// 本地模拟火山引擎服务
+export { EventType } from './core/protocols';
+export { MockVolcengineServer } from './core/mock-server';
+export type { MockVolcengineServerOptions, MockFault } from './core/mock-server';
@@ -11,11 +11,34 @@ export interface AudioTimestamp {
   endTime: number;       // 结束时间(毫秒)
 }
 
+/**
+ * 火山引擎返回的单词时间戳（秒）
+ */
+export interface TTSWord {
+  word: string;
+  startTime: number;
+  endTime: number;
+}
+
+/**
+ * TTS 会话事件，由火山引擎协议消息解码而来
+ */
+export type TTSSessionEvent =
+  | { type: 'sentenceStart'; text: string; sentenceId?: number }
+  | { type: 'audio'; data: Uint8Array }
+  | { type: 'sentenceEnd'; text: string; words: TTSWord[]; duration?: number }
+  | { type: 'usage'; usage: Record<string, unknown> }
+  | { type: 'ended' };
+
 /**
  * 发送给前端的事件类型
  */
 export interface ClientEvent {
-  type: 'text_chunk' | 'sentence_start' | 'audio_chunk' | 'sentence_complete' | 'chat_complete' | 'error' | 'connection_established' | 'conversation_started' | 'synthesis_complete' | 'synthesis_error' | 'pong';
+  type: 'text_chunk' | 'sentence_start' | 'audio_chunk' | 'sentence_complete' | 'chat_complete' | 'error' | 'connection_established' | 'conversation_started' | 'synthesis_complete' | 'synthesis_error' | 'pong' | 'history' | 'conversation_reset' | 'conversation_canceled' | 'queued' | 'queue_position';
+  /** 事件所属的对话，由 start_conversation 指定或服务端生成 */
+  conversationId?: string;
+  /** 事件所属的合成请求（synthesize_text 的 requestId） */
+  requestId?: string;
   data: any;
   timestamp: number;
 }
@@ -39,7 +62,8 @@ export interface AudioChunkEvent extends ClientEvent {
   data: {
     sentenceId: number;
     chunkIndex: number;
-    audioData: Uint8Array | number[]; // 服务端为Uint8Array，客户端序列化为number[]
+    /** 音频数据，以 JSON 传输时客户端 SDK 会还原为 Uint8Array */
+    audioData: Uint8Array;
     isLast: boolean;
   };
 }
@@ -70,13 +94,15 @@ export interface TextChunkEvent extends ClientEvent {
 }
 
 /**
- * 聊天完成事件
+ * 聊天完成事件：AI回复和所有句子的音频都已发出，是一轮对话的最后一个事件
  */
 export interface ChatCompleteEvent extends ClientEvent {
   type: 'chat_complete';
   data: {
     fullText: string;
     totalSentences: number;
+    /** 规范化后实际朗读的文本，仅启用 tts.normalization 时提供 */
+    spokenText?: string;
   };
 }
 
@@ -88,6 +114,14 @@ export interface ErrorEvent extends ClientEvent {
   data: {
     message: string;
     code?: string;
+    /** 是否可以重试（仅火山引擎协议错误和限流时提供） */
+    retryable?: boolean;
+    /** 限流时超出的限制 */
+    limit?: RateLimitKind;
+    /** 限流时超出的是客户端还是调用方的限制 */
+    scope?: RateLimitScope;
+    /** 限流时建议的重试等待时间（毫秒） */
+    retryAfterMs?: number;
   };
 }
 
@@ -99,6 +133,8 @@ export interface ConnectionEstablishedEvent extends ClientEvent {
   data: {
     message: string;
     clientId?: string;
+    /** 握手协商出的音频传输方式 */
+    audioTransport?: AudioTransport;
   };
 }
 
@@ -113,21 +149,210 @@ export interface ConversationStartedEvent extends ClientEvent {
   };
 }
 
+/**
+ * 对话历史中的一条消息
+ */
+export interface ChatMessage {
+  role: 'user' | 'assistant';
+  content: string;
+  timestamp?: number;
+}
+
+/**
+ * 对话已取消事件，响应 cancel
+ */
+export interface ConversationCanceledEvent extends ClientEvent {
+  type: 'conversation_canceled';
+  data: {
+    message: string;
+  };
+}
+
+/**
+ * 排队事件：全局 TTS 会话数已满，请求进入队列
+ */
+export interface QueuedEvent extends ClientEvent {
+  type: 'queued';
+  data: {
+    /** 排队位置，从 1 开始 */
+    position: number;
+    queueSize: number;
+  };
+}
+
+/**
+ * 排队位置变化事件，position 为 0 表示已离开队列开始处理
+ */
+export interface QueuePositionEvent extends ClientEvent {
+  type: 'queue_position';
+  data: {
+    position: number;
+    queueSize: number;
+  };
+}
+
+/**
+ * 对话历史事件，响应 get_history
+ */
+export interface HistoryEvent extends ClientEvent {
+  type: 'history';
+  data: {
+    messages: ChatMessage[];
+  };
+}
+
+/**
+ * 对话已重置事件，响应 reset_conversation
+ */
+export interface ConversationResetEvent extends ClientEvent {
+  type: 'conversation_reset';
+  data: {
+    message: string;
+  };
+}
+
+/**
+ * 对话历史截断配置，两项同时设置时都要满足
+ */
+export interface ConversationHistoryOptions {
+  /** 最多保留的轮数（一问一答为一轮），默认 20，0 表示不保留历史 */
+  maxTurns?: number;
+  /** 历史消息的估算 token 上限，超出时从最早的一轮开始丢弃 */
+  maxTokens?: number;
+}
+
+/**
+ * 音频传输方式
+ * - binary: 音频以二进制帧发送，握手时通过子协议协商
+ * - json: 音频以 JSON 数字数组发送（旧客户端）
+ */
+export type AudioTransport = 'binary' | 'json';
+
+/**
+ * 单次合成参数，映射到火山引擎 req_params
+ */
+export interface SynthesisOptions {
+  /** 发音人，覆盖默认 speaker */
+  voice?: string;
+  /** 语速倍率，0.5 ~ 2，默认 1 */
+  rate?: number;
+  /** 音调偏移（半音），-12 ~ 12，默认 0 */
+  pitch?: number;
+  /** 音量倍率，0.5 ~ 2，默认 1 */
+  volume?: number;
+  /** 情感，如 'happy'、'sad'，需发音人支持 */
+  emotion?: string;
+  /** 情感强度，1 ~ 5，默认 4 */
+  emotionScale?: number;
+}
+
+/**
+ * POST /v1/synthesize 请求体
+ */
+export interface SynthesizeRequest {
+  /** 要合成的文本 */
+  text: string;
+  /** 语音合成参数 */
+  options?: SynthesisOptions;
+  /** 音频格式，默认使用服务端配置 */
+  format?: 'mp3' | 'pcm' | 'wav';
+  /** 采样率，默认使用服务端配置 */
+  sampleRate?: number;
+  /** audio 直接返回音频；json 返回 base64 音频和时间戳。默认 audio，请求头 Accept 为 application/json 时为 json */
+  response?: 'audio' | 'json';
+  /** 以分块传输边合成边返回音频，默认 true，仅 response 为 audio 时有效 */
+  stream?: boolean;
+}
+
+/**
+ * POST /v1/synthesize 的 JSON 响应
+ */
+export interface SynthesizeResponse {
+  requestId: string;
+  contentType: string;
+  format: 'mp3' | 'pcm' | 'wav';
+  sampleRate: number;
+  /** base64 编码的音频 */
+  audio: string;
+  sentences: SynthesizedSentence[];
+}
+
+/**
+ * 合成完成的句子及其逐字时间戳
+ */
+export interface SynthesizedSentence {
+  text: string;
+  audioTimestamps?: AudioTimestamp[];
+  /** 句子音频时长(毫秒) */
+  totalAudioDuration?: number;
+}
+
+/**
+ * TTSServerSDK.synthesize / synthesizeStream 的选项
+ */
+export interface ServerSynthesisOptions extends SynthesisOptions {
+  /** 音频格式，默认使用服务端配置 */
+  format?: 'mp3' | 'pcm' | 'wav';
+  /** 采样率，默认使用服务端配置 */
+  sampleRate?: number;
+  /** 中止合成，排队中的请求会离开队列 */
+  signal?: AbortSignal;
+}
+
+/**
+ * TTSServerSDK.synthesize 的结果
+ */
+export interface SynthesisResult {
+  requestId: string;
+  format: 'mp3' | 'pcm' | 'wav';
+  sampleRate: number;
+  /** 合并后的音频 */
+  audio: Uint8Array;
+  sentences: SynthesizedSentence[];
+  /** 是否来自合成缓存 */
+  cached?: boolean;
+}
+
+/**
+ * TTSServerSDK.converse 的选项
+ */
+export interface ConverseOptions extends SynthesisOptions {
+  /** 系统提示词，默认使用 ai.systemPrompt */
+  systemPrompt?: string;
+  /** 对话ID，不传时自动生成，写入每个事件 */
+  conversationId?: string;
+  /** 中止对话 */
+  signal?: AbortSignal;
+}
+
+/**
+ * POST /v1/audio/speech 请求体，与 OpenAI 语音合成接口兼容
+ */
+export interface SpeechRequest {
+  /** 模型名称，仅为兼容保留，不影响合成 */
+  model?: string;
+  /** 要合成的文本 */
+  input: string;
+  /** 音色名称，通过 tts.voices 映射为火山引擎发音人 */
+  voice: string;
+  /** 音频格式，默认 mp3；pcm 固定为 24kHz 16 位单声道 */
+  response_format?: 'mp3' | 'opus' | 'aac' | 'flac' | 'wav' | 'pcm';
+  /** 语速，0.25 ~ 4，默认 1；超出火山引擎支持范围（0.5 ~ 2）的部分按边界值处理 */
+  speed?: number;
+}
+
 /**
  * 客户端发送的消息类型
  */
 export interface ClientMessage {
-  type: 'start_conversation' | 'ping' | 'synthesize_text';
+  type: 'start_conversation' | 'ping' | 'synthesize_text' | 'reset_conversation' | 'get_history' | 'cancel';
   payload?: {
     userMessage?: string;
+    /** 对话ID，不传时由服务端生成；cancel 时指定要取消的对话 */
+    conversationId?: string;
     requestId?: string;
     text?: string;
-    options?: {
-      voice?: string;
-      rate?: number;
-      pitch?: number;
-      volume?: number;
-    };
+    options?: SynthesisOptions;
     [key: string]: any;
   };
 }
@@ -148,6 +373,24 @@ export interface SentenceData {
   typingState?: TypingState;
 }
 
+/**
+ * 客户端记录的一次对话，句子按对话分组
+ */
+export interface ConversationData {
+  id: string;
+  userMessage: string;
+  status: 'active' | 'completed' | 'canceled' | 'error';
+  sentences: Map<number, SentenceData>;
+  /** AI 的完整回复，chat_complete 后可用 */
+  fullText?: string;
+  /** 规范化后实际朗读的文本，服务端启用 tts.normalization 时 chat_complete 后可用 */
+  spokenText?: string;
+  /** 排队中的位置，未排队或已开始处理时为空 */
+  queuePosition?: number;
+  startTime: number;
+  endTime?: number;
+}
+
 /**
  * 音频片段数据
  */
@@ -178,28 +421,160 @@ export interface Stats {
   totalChunks: number;
 }
 
+/**
+ * 日志级别
+ */
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error' | 'silent';
+
+/**
+ * 结构化日志字段
+ */
+export interface LogFields {
+  sessionId?: string;
+  clientId?: string;
+  /** 协议事件名或业务事件名 */
+  event?: string;
+  error?: unknown;
+  [key: string]: unknown;
+}
+
+/**
+ * 日志接口，可对接 pino、winston 等日志库
+ */
+export interface Logger {
+  debug(message: string, fields?: LogFields): void;
+  info(message: string, fields?: LogFields): void;
+  warn(message: string, fields?: LogFields): void;
+  error(message: string, fields?: LogFields): void;
+}
+
+/**
+ * 打开TTS会话的参数
+ */
+export interface TTSSessionRequest {
+  /** 本次会话的合成参数，已通过 validateSynthesisOptions 校验 */
+  options: SynthesisOptions;
+  audioFormat: 'mp3' | 'pcm' | 'wav';
+  sampleRate: number;
+}
+
+/**
+ * TTS 会话：可以多次发送文本，按发送顺序产出每句的开始、音频分片和带逐词时间戳的结束事件
+ */
+export interface TTSProviderSession {
+  readonly sessionId: string;
+  /** 发送一段文本，可以在读取事件期间多次调用 */
+  send(text: string): Promise<void>;
+  /** 通知不会再发送新的文本 */
+  finishInput(): Promise<void>;
+  /**
+   * 读取会话事件，finishInput 之后所有文本合成完毕时产出 ended 并结束。
+   * 失败、超时或 signal 中止时抛出
+   */
+  events(options?: { signal?: AbortSignal }): AsyncIterable<TTSSessionEvent>;
+  /**
+   * 可选：只合成一段文本时使用，不实现时依次调用 send、finishInput、events。
+   * 火山引擎借此在取消时保留连接
+   */
+  synthesize?(text: string, options?: { signal?: AbortSignal }): AsyncIterable<TTSSessionEvent>;
+  /** 取消尚未完成的合成，调用前需要先停止 events() 的读取 */
+  cancel(): Promise<void>;
+  /** 等待会话正常结束并释放资源 */
+  finished(): Promise<void>;
+  /** 立即释放资源，等待中的读取会被拒绝 */
+  close(): void;
+}
+
+/**
+ * TTS 服务接口，内置 VolcengineTTSProvider 和 SineWaveTTSProvider
+ */
+export interface TTSProvider {
+  /** 名称，用于日志 */
+  readonly name?: string;
+  /** 打开一个会话，参数不被支持时抛出 RangeError */
+  startSession(request: TTSSessionRequest): Promise<TTSProviderSession>;
+  /** 服务器启动时调用，用于预热连接；失败不影响启动 */
+  warmUp?(): Promise<void>;
+  /** 服务器停止时调用，之后仍可能再次 startSession */
+  close?(): void;
+}
+
+/**
+ * 发送给模型的消息
+ */
+export interface LLMMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+/**
+ * 一次模型调用
+ */
+export interface LLMRequest {
+  /** 完整的消息历史，包括系统提示词 */
+  messages: LLMMessage[];
+  /** 对话取消时中止生成 */
+  signal?: AbortSignal;
+}
+
+/**
+ * 大模型接口：根据消息历史流式产出回复的文本增量
+ */
+export interface LLMProvider {
+  /** 名称，用于日志 */
+  readonly name?: string;
+  stream(request: LLMRequest): AsyncIterable<string>;
+}
+
 /**
  * SDK 配置
  */
 export interface TTSConfig {
+  /** 日志输出，默认不输出任何日志 */
+  logger?: Logger;
+
   // 服务端配置
   server?: {
     port?: number;
     host?: string;
+    /** WebSocket 路径，默认 /tts */
+    path?: string;
+    /** 允许的浏览器来源，'*' 表示全部允许；同时用于 HTTP 接口的 CORS 和 WebSocket 握手的 Origin 校验 */
     corsOrigin?: string | string[];
+    /**
+     * 认证 WebSocket 握手和 REST 请求，返回调用方身份；返回空值或抛出异常时拒绝请求。
+     * 内置 apiKeyAuth、jwtAuth，可用 combineAuth 组合。不配置时不做认证
+     */
+    authenticate?: AuthenticateHook;
+    /** 限流配置，不配置时只统计用量 */
+    rateLimit?: {
+      /** 每个 WebSocket 连接的限制，未认证的 REST 请求按来源地址使用同一限制 */
+      perClient?: RateLimitOptions;
+      /** 每个认证调用方的限制，包含其所有连接和 REST 请求 */
+      perPrincipal?: RateLimitOptions;
+    };
   };
   
   // AI 配置
   ai?: {
+    /** 自定义模型，设置后忽略 apiKey、baseURL 和 model */
+    provider?: LLMProvider;
+    /** OpenAI 兼容接口的 API Key */
     apiKey?: string;
+    /** OpenAI 兼容接口的地址 */
     baseURL?: string;
     model?: string;
     systemPrompt?: string;
+    /** 每个客户端连接的多轮对话历史 */
+    history?: ConversationHistoryOptions;
   };
   
   // TTS 配置 (火山引擎)
   tts?: {
+    /** TTS 服务，默认 volcengine；设置了 custom 时默认为 custom */
     provider?: 'volcengine' | 'custom';
+    /** provider 为 custom 时使用的实现，如 SineWaveTTSProvider 或其他厂商的适配 */
+    custom?: TTSProvider;
     /** 火山引擎 App ID */
     appId?: string;
     /** 火山引擎 Access Key */
@@ -212,6 +587,25 @@ export interface TTSConfig {
     audioFormat?: 'mp3' | 'pcm' | 'wav';
     /** 采样率 */
     sampleRate?: number;
+    /** 请求负载压缩方式，默认不压缩 */
+    compression?: 'none' | 'gzip';
+    /** 等待服务端消息的超时时间(毫秒)，默认 30000，0 表示不超时 */
+    timeoutMs?: number;
+    /** X-Api-Resource-Id，默认根据发音人推断（S_ 开头的复刻音色使用 volc.megatts.default） */
+    resourceId?: string;
+    /** 连接池配置，设为 false 时每次请求新建连接 */
+    pool?: VolcenginePoolOptions | false;
+    /** 全局会话调度：限制同时进行的 TTS 会话数，超出时排队 */
+    scheduler?: SchedulerOptions;
+    /** 合成缓存：相同文本和参数的合成直接返回之前的音频和时间戳，默认关闭 */
+    cache?: SynthesisCacheOptions;
+    /** AI 回复送入 TTS 前的文本规范化，默认关闭；text_chunk 和 chat_complete 的文本不受影响 */
+    normalization?: TextNormalizationOptions;
+    /**
+     * /v1/audio/speech 的 voice 名称到火山引擎发音人的映射，如 { alloy: 'zh_female_...' }。
+     * 未映射的 OpenAI 内置音色使用默认发音人，其他名称按发音人 ID 直接使用
+     */
+    voices?: Record<string, string>;
   };
   
   // 客户端配置
@@ -220,9 +614,23 @@ export interface TTSConfig {
     autoConnect?: boolean;
     reconnectInterval?: number;
     maxReconnectAttempts?: number;
+    /** 音频传输方式，默认 binary；服务端不支持时自动回退到 json */
+    audioTransport?: AudioTransport;
+    /** 认证令牌（API Key 或 JWT），以 token 查询参数随握手发送 */
+    authToken?: string;
+    /** 保留的对话数（含音频），超出时丢弃最早结束的对话，默认 20 */
+    maxConversations?: number;
   };
 }
 
+/**
+ * attach() 选项
+ */
+export interface AttachOptions {
+  /** WebSocket 路径，默认使用 server.path */
+  path?: string;
+}
+
 /**
  * 事件回调接口
  */
@@ -235,14 +643,18 @@ export interface EventCallbacks {
   onError?: (error: ErrorEvent) => void;
   onConnectionEstablished?: (event: ConnectionEstablishedEvent) => void;
   onConversationStarted?: (event: ConversationStartedEvent) => void;
+  onConversationReset?: (event: ConversationResetEvent) => void;
+  onConversationCanceled?: (event: ConversationCanceledEvent) => void;
+  onQueued?: (event: QueuedEvent) => void;
+  onQueuePosition?: (event: QueuePositionEvent) => void;
 }
 
 /**
  * 服务端事件回调接口
  */
 export interface ServerEventCallbacks extends EventCallbacks {
-  onClientConnected?: (clientId: string) => void;
-  onClientDisconnected?: (clientId: string) => void;
+  onClientConnected?: (clientId: string, client: ClientInfo) => void;
+  onClientDisconnected?: (clientId: string, client: ClientInfo) => void;
 }
 
 /**
@@ -251,7 +663,9 @@ export interface ServerEventCallbacks extends EventCallbacks {
 export interface ExportData {
   timestamp: string;
   stats: Stats;
+  transcript?: ChatMessage[];
   sentences: Array<{
+    conversationId?: string;
     id: number;
     text: string;
     status: string;
@@ -275,6 +689,21 @@ export type ConnectionStatus = 'disconnected' | 'connecting' | 'connected' | 'pr
 export interface ServerStatus {
   isRunning: boolean;
   clientCount: number;
+  /** 火山引擎连接池使用情况，未启用连接池时为空 */
+  ttsPool?: {
+    size: number;
+    idle: number;
+    leased: number;
+    pending: number;
+  };
+  /** 全局会话调度情况，未限制并发时没有 maxConcurrent */
+  scheduler: {
+    active: number;
+    queued: number;
+    maxConcurrent?: number;
+  };
+  /** 合成缓存命中情况，未启用缓存时为空 */
+  cache?: SynthesisCacheStats;
   config: TTSConfig;
 }
 
@@ -285,6 +714,215 @@ export interface ClientInfo {
   id: string;
   ip: string;
   connectedAt: Date;
+  audioTransport: AudioTransport;
+  /** 认证通过的调用方，未配置认证时为空 */
+  principal?: Principal;
+  /** 该连接的用量 */
+  usage?: RateLimitUsage;
+  /** 调用方的用量，包含其所有连接和 REST 请求 */
+  principalUsage?: RateLimitUsage;
+}
+
+/**
+ * 全局会话调度配置
+ */
+export interface SchedulerOptions {
+  /** 同时进行的 TTS 会话数上限，默认不限制 */
+  maxConcurrentSessions?: number;
+  /** 排队策略：fifo 先到先得（默认）；priority 按 priority 返回值从高到低，相同时先到先得 */
+  queue?: 'fifo' | 'priority';
+  /** 请求的优先级，数值越大越先执行，默认 0 */
+  priority?: (job: SessionJobInfo) => number;
+  /** 最多排队的请求数，超出时直接拒绝，默认不限制 */
+  maxQueueSize?: number;
+  /** 排队超时(毫秒)，默认 30000，0 表示不超时 */
+  queueTimeoutMs?: number;
+}
+
+/**
+ * 等待会话名额的请求
+ */
+export interface SessionJobInfo {
+  /** conversation、synthesis 来自 WebSocket 客户端，http 来自 REST 接口，api 来自服务端直接调用 */
+  kind: 'conversation' | 'synthesis' | 'http' | 'api';
+  /** WebSocket 客户端 ID，REST 请求为空 */
+  clientId?: string;
+  principal?: Principal;
+}
+
+/**
+ * 合成缓存中的一条记录：合并后的音频和逐句时间戳
+ */
+export interface SynthesisCacheEntry {
+  format: 'mp3' | 'pcm' | 'wav';
+  sampleRate: number;
+  audio: Uint8Array;
+  sentences: SynthesizedSentence[];
+  /** 每句音频在 audio 中的字节数，与 sentences 一一对应 */
+  sentenceBytes: number[];
+  /** 写入时间(毫秒时间戳) */
+  createdAt: number;
+  /** 过期时间(毫秒时间戳)，为空表示不过期 */
+  expiresAt?: number;
+}
+
+/**
+ * 合成缓存的存储，内置 MemoryCacheStore、FileSystemCacheStore 和 KeyValueCacheStore
+ */
+export interface SynthesisCacheStore {
+  /** 名称，用于日志和状态 */
+  readonly name?: string;
+  get(key: string): Promise<SynthesisCacheEntry | undefined>;
+  /** ttlMs 为空表示不过期，支持自动过期的存储可以直接使用 */
+  set(key: string, entry: SynthesisCacheEntry, ttlMs?: number): Promise<void>;
+  delete(key: string): Promise<void>;
+  /** 当前的记录数和字节数，无法统计时不实现 */
+  getStats?(): { entries: number; bytes: number };
+}
+
+/**
+ * 用户提供的键值存储（如 Redis），值为编码后的字节
+ */
+export interface KeyValueAdapter {
+  get(key: string): Promise<Uint8Array | null | undefined>;
+  /** ttlMs 为空表示不过期 */
+  set(key: string, value: Uint8Array, ttlMs?: number): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+/**
+ * 合成缓存配置
+ */
+export interface SynthesisCacheOptions {
+  /** 存储，默认 memory；filesystem 需要同时设置 directory；也可以传入自定义存储 */
+  store?: 'memory' | 'filesystem' | SynthesisCacheStore;
+  /** filesystem 存储的目录，不存在时自动创建 */
+  directory?: string;
+  /** 缓存有效期(毫秒)，默认 86400000（一天），0 表示不过期 */
+  ttlMs?: number;
+  /** memory 存储的最大记录数，默认 1000 */
+  maxEntries?: number;
+  /** memory 和 filesystem 存储的最大字节数，超出时淘汰最久未使用的记录，默认 memory 64MB、filesystem 1GB */
+  maxBytes?: number;
+  /** 超过该长度（字符数）的文本不缓存，默认 500 */
+  maxTextLength?: number;
+}
+
+/**
+ * 合成缓存的命中情况
+ */
+export interface SynthesisCacheStats {
+  /** 存储名称 */
+  store?: string;
+  hits: number;
+  misses: number;
+  /** 当前记录数，存储无法统计时为空 */
+  entries?: number;
+  /** 当前字节数，存储无法统计时为空 */
+  bytes?: number;
+}
+
+/**
+ * 自定义替换规则
+ */
+export interface TextNormalizationRule {
+  /** 字符串按字面匹配；正则表达式总是替换全部匹配 */
+  pattern: string | RegExp;
+  /** 替换文本（可以使用 $1 等分组引用）或替换函数 */
+  replacement: string | ((match: string, ...groups: any[]) => string);
+}
+
+/**
+ * 朗读前的文本规范化配置，内置步骤默认全部启用
+ */
+export interface TextNormalizationOptions {
+  /** 朗读语言，auto 按句子是否包含汉字判断，默认 auto */
+  language?: 'zh' | 'en' | 'auto';
+  /** 去掉 Markdown 标记，代码块不朗读 */
+  markdown?: boolean;
+  /** 网址只读域名，邮箱逐段朗读 */
+  urls?: boolean;
+  /** 数字、日期、时间、货币和百分数按语言读出 */
+  numbers?: boolean;
+  /** 去掉 emoji */
+  emoji?: boolean;
+  /** 展开常见英文缩写，如 Dr. → Doctor */
+  abbreviations?: boolean;
+  /** 自定义替换规则，在内置步骤之前按顺序执行 */
+  rules?: TextNormalizationRule[];
+}
+
+/**
+ * 限流配置
+ */
+export interface RateLimitOptions {
+  /** 每分钟可发起的请求数（对话、合成和 REST 请求） */
+  requestsPerMinute?: number;
+  /** 每天可合成的字符数，按令牌桶匀速恢复 */
+  charactersPerDay?: number;
+  /** 同时进行的会话数 */
+  maxConcurrentSessions?: number;
+}
+
+/** 限流的限制类型 */
+export type RateLimitKind = 'requests' | 'characters' | 'concurrency';
+
+/** 限流的维度 */
+export type RateLimitScope = 'client' | 'principal';
+
+/**
+ * 用量统计
+ */
+export interface RateLimitUsage {
+  /** 累计请求数 */
+  requests: number;
+  /** 累计合成字符数 */
+  characters: number;
+  /** 进行中的会话数 */
+  activeSessions: number;
+  /** 当前剩余的请求数，未配置 requestsPerMinute 时为空 */
+  remainingRequests?: number;
+  /** 当前剩余的字符数，未配置 charactersPerDay 时为空 */
+  remainingCharacters?: number;
+}
+
+/**
+ * 认证通过的调用方身份
+ */
+export interface Principal {
+  /** 调用方标识，如 API Key 对应的名称或 JWT 的 sub */
+  id: string;
+  /** 认证方式 */
+  method: 'apiKey' | 'jwt' | 'custom';
+  /** JWT 载荷或自定义的附加信息 */
+  claims?: Record<string, unknown>;
+}
+
+/**
+ * 认证钩子接收的请求，与 http.IncomingMessage 兼容
+ */
+export interface AuthRequest {
+  url?: string;
+  headers: Record<string, string | string[] | undefined>;
+}
+
+/**
+ * 认证钩子：返回调用方身份，返回空值或抛出异常表示拒绝，异常信息会返回给调用方
+ */
+export type AuthenticateHook = (req: AuthRequest) => Principal | null | undefined | Promise<Principal | null | undefined>;
+
+/**
+ * 火山引擎连接池配置
+ */
+export interface VolcenginePoolOptions {
+  /** 最大连接数，默认 4 */
+  maxSize?: number;
+  /** 常驻的空闲连接数，默认 0 */
+  minIdle?: number;
+  /** 空闲连接保留时间(毫秒)，超时后关闭，默认 60000 */
+  idleTimeoutMs?: number;
+  /** 连接池满时等待可用连接的超时(毫秒)，默认 30000 */
+  acquireTimeoutMs?: number;
 }
 
 /**
@@ -303,5 +941,11 @@ export interface VolcengineTTSConfig {
   audioFormat?: 'mp3' | 'pcm' | 'wav';
   /** 采样率 */
   sampleRate?: number;
+  /** 请求负载压缩方式，默认不压缩 */
+  compression?: 'none' | 'gzip';
+  /** 等待服务端消息的超时时间(毫秒)，默认 30000，0 表示不超时 */
+  timeoutMs?: number;
+  /** X-Api-Resource-Id，默认根据发音人推断（S_ 开头的复刻音色使用 volc.megatts.default） */
+  resourceId?: string;
 }
 
@@ -0,0 +1,48 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test'
+import {
+  EventType,
+  MockVolcengineServer,
+  VolcengineProtocolError,
+  createTTSServer,
+  type TTSServerSDK,
+} from '../src/server'
+
+describe('MockVolcengineServer', () => {
+  let mock: MockVolcengineServer
+  let server: TTSServerSDK
+
+  beforeEach(async () => {
+    mock = new MockVolcengineServer({ msPerChar: 100, chunkSize: 2048 })
+    const wsUrl = await mock.start()
+    server = createTTSServer({
+      tts: { appId: 'mock', accessKey: 'mock', wsUrl, audioFormat: 'pcm', sampleRate: 16000, timeoutMs: 2000 },
+    })
+  })
+
+  afterEach(async () => {
+    await server.stop()
+    await mock.stop()
+  })
+
+  test('synthesizes sentences with audio and word timestamps', async () => {
+    const result = await server.synthesize('你好。再见！')
+
+    expect(result.sentences.map((sentence) => sentence.text)).toEqual(['你好。', '再见！'])
+    expect(result.sentences[0].audioTimestamps?.map((word) => word.char)).toEqual(['你', '好', '。'])
+    // 16 kHz 16-bit PCM, 100ms per character
+    expect(result.audio.length).toBe(6 * 1600 * 2)
+    expect(mock.received.some((msg) => msg.event === EventType.TaskRequest)).toBe(true)
+  })
+
+  test('surfaces an injected SessionFailed and recovers on the next request', async () => {
+    mock.inject({ on: EventType.TaskRequest, kind: 'failed', code: 45000001, message: 'quota exceeded' })
+
+    const failure = await server.synthesize('你好。').catch((error: unknown) => error)
+    expect(failure).toBeInstanceOf(VolcengineProtocolError)
+    expect((failure as VolcengineProtocolError).code).toBe(45000001)
+
+    const result = await server.synthesize('你好。')
+    expect(result.sentences).toHaveLength(1)
+    expect(server.getStatus().scheduler.active).toBe(0)
+  })
+})